@@ -19,6 +19,10 @@ CREATE TABLE public.gemini_keys (
   is_active boolean DEFAULT true NOT NULL, -- 是否参与负载均衡
   is_valid boolean DEFAULT true NOT NULL, -- 健康检查是否通过
   request_count bigint DEFAULT 0 NOT NULL, -- 该 Key 的总调用次数
+  weight integer DEFAULT 1 NOT NULL, -- weighted 选择策略下的权重，0 表示仅作为最后的备选
+  consecutive_failures integer DEFAULT 0 NOT NULL, -- 失效后定时复检连续失败的次数
+  last_checked_at timestamp with time zone, -- 最近一次定时复检的时间
+  retired_at timestamp with time zone, -- 连续复检失败达到上限、被永久停用的时间（不再复检）
   last_used_at timestamp with time zone,
   created_at timestamp with time zone DEFAULT now() NOT NULL
 );
@@ -36,11 +40,17 @@ CREATE TABLE public.call_logs (
   response_status_code integer,
   duration_ms integer, -- 请求耗时(毫秒)
   is_stream boolean,
-  error_message text
+  error_message text,
+  prompt_tokens integer, -- 输入 token 数
+  completion_tokens integer, -- 输出 token 数（含思考 token）
+  total_tokens integer, -- 总 token 数
+  request_id text, -- 请求 ID（与响应 id / x-request-id 一致）
+  request_type text DEFAULT 'chat' NOT NULL -- 调用类型：chat / count_tokens（后者不计入调用额度）
 );
 
 -- 创建索引以提高查询性能
 CREATE INDEX idx_call_logs_timestamp ON public.call_logs(timestamp DESC);
+CREATE INDEX idx_call_logs_request_id ON public.call_logs(request_id);
 
 -- Function 1: increment_key_request_count - 原子化更新调用次数
 CREATE OR REPLACE FUNCTION increment_key_request_count(key_id uuid)
@@ -52,6 +62,28 @@ RETURNS void AS $$
   WHERE id = key_id;
 $$ LANGUAGE sql;
 
+-- Function 2: sum_gemini_key_tokens - 汇总 Gemini Key 的 token 用量（start_time / end_time 为空时不限时间）
+CREATE OR REPLACE FUNCTION sum_gemini_key_tokens(key_id uuid, start_time timestamp with time zone DEFAULT NULL, end_time timestamp with time zone DEFAULT NULL)
+RETURNS TABLE (prompt_tokens bigint, completion_tokens bigint, total_tokens bigint) AS $$
+  SELECT
+    COALESCE(SUM(l.prompt_tokens), 0),
+    COALESCE(SUM(l.completion_tokens), 0),
+    COALESCE(SUM(l.total_tokens), 0)
+  FROM public.call_logs l
+  WHERE l.gemini_key_id = key_id
+    AND (start_time IS NULL OR l.timestamp >= start_time)
+    AND (end_time IS NULL OR l.timestamp <= end_time);
+$$ LANGUAGE sql STABLE;
+
+-- Function 3: sum_access_key_tokens - 汇总访问密钥的 token 用量（不含 countTokens 请求）
+CREATE OR REPLACE FUNCTION sum_access_key_tokens(key_id uuid)
+RETURNS bigint AS $$
+  SELECT COALESCE(SUM(l.total_tokens), 0)
+  FROM public.call_logs l
+  WHERE l.access_key_id = key_id
+    AND l.request_type <> 'count_tokens';
+$$ LANGUAGE sql STABLE;
+
 -- Table 4: system_settings - 系统设置
 CREATE TABLE public.system_settings (
   id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
@@ -79,6 +111,91 @@ CREATE TRIGGER update_system_settings_updated_at
     BEFORE UPDATE ON public.system_settings 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Table 5: stored_responses - Responses API 保存的响应（用于 previous_response_id）
+CREATE TABLE IF NOT EXISTS public.stored_responses (
+  id text NOT NULL PRIMARY KEY, -- resp_xxx
+  access_key_id uuid REFERENCES public.access_keys(id) ON DELETE CASCADE,
+  conversation_id text, -- 对话中第一轮响应的 ID，用于一次读出整条对话
+  previous_response_id text, -- 上一轮响应的 ID
+  messages jsonb NOT NULL, -- 本轮新增的消息（输入与输出，Chat Completions 消息格式）
+  response jsonb NOT NULL, -- 返回给客户端的 Response 对象
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  expires_at timestamp with time zone DEFAULT (now() + interval '30 days') NOT NULL -- 过期后被清理，同一对话有新响应时续期
+);
+
+CREATE INDEX IF NOT EXISTS idx_stored_responses_created_at ON public.stored_responses(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stored_responses_conversation ON public.stored_responses(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_stored_responses_expires_at ON public.stored_responses(expires_at);
+
+-- Table 6: batch_files - Batch API 上传的输入文件与生成的结果文件（JSONL）
+CREATE TABLE IF NOT EXISTS public.batch_files (
+  id text NOT NULL PRIMARY KEY, -- file-xxx
+  access_key_id uuid REFERENCES public.access_keys(id) ON DELETE CASCADE,
+  filename text NOT NULL,
+  purpose text NOT NULL, -- batch（输入）/ batch_output（结果）
+  bytes integer NOT NULL,
+  content text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Table 7: batches - 批处理任务
+CREATE TABLE IF NOT EXISTS public.batches (
+  id text NOT NULL PRIMARY KEY, -- batch_xxx
+  access_key_id uuid REFERENCES public.access_keys(id) ON DELETE CASCADE,
+  input_file_id text NOT NULL,
+  endpoint text NOT NULL,
+  completion_window text NOT NULL,
+  status text NOT NULL, -- validating / in_progress / finalizing / completed / expired / cancelling / cancelled
+  output_file_id text,
+  error_file_id text,
+  metadata jsonb,
+  total_count integer DEFAULT 0 NOT NULL,
+  completed_count integer DEFAULT 0 NOT NULL,
+  failed_count integer DEFAULT 0 NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  in_progress_at timestamp with time zone,
+  expires_at timestamp with time zone NOT NULL,
+  finalizing_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  failed_at timestamp with time zone,
+  expired_at timestamp with time zone,
+  cancelling_at timestamp with time zone,
+  cancelled_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS idx_batches_status_created_at ON public.batches(status, created_at);
+
+-- Table 8: batch_requests - 批处理任务拆分出的单个请求及其结果
+CREATE TABLE IF NOT EXISTS public.batch_requests (
+  id text NOT NULL PRIMARY KEY, -- batch_req_xxx
+  batch_id text NOT NULL REFERENCES public.batches(id) ON DELETE CASCADE,
+  line_index integer NOT NULL, -- 在输入文件中的顺序
+  custom_id text NOT NULL,
+  body jsonb NOT NULL, -- Chat Completions 请求体
+  status text DEFAULT 'pending' NOT NULL, -- pending / completed / failed
+  attempts integer DEFAULT 0 NOT NULL, -- 可重试错误的累计次数
+  response jsonb, -- 结果文件中的 response 字段
+  error jsonb -- 结果文件中的 error 字段（过期、取消）
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_requests_batch_status ON public.batch_requests(batch_id, status, line_index);
+
+-- Table 9: key_health_checks - 定时复检失效 / 冷却中 Key 的结果记录
+CREATE TABLE IF NOT EXISTS public.key_health_checks (
+  id bigserial NOT NULL PRIMARY KEY,
+  gemini_key_id uuid NOT NULL REFERENCES public.gemini_keys(id) ON DELETE CASCADE,
+  checked_at timestamp with time zone DEFAULT now() NOT NULL,
+  check_type text NOT NULL, -- invalid（失效的 Key）/ cooldown（在某个模型上冷却中的 Key）
+  model text, -- cooldown 复检使用的模型
+  success boolean NOT NULL,
+  status_code integer,
+  duration_ms integer,
+  error_message text,
+  action text NOT NULL -- restored / failed / retired / inconclusive / cooldown_cleared / still_cooling / invalidated / error（复检过程出错）
+);
+
+CREATE INDEX IF NOT EXISTS idx_key_health_checks_key ON public.key_health_checks(gemini_key_id, checked_at DESC);
+
 -- 插入默认的系统设置
 INSERT INTO public.system_settings (setting_key, setting_value, description) 
 VALUES 
@@ -91,6 +208,26 @@ VALUES
     'disguise_enabled',
     'true',
     '是否启用伪装信息功能，在请求中添加随机字符串'
+  ),
+  (
+    'system_instruction_config',
+    '{"enabled": true, "legacy_prefix_models": ["gemma"]}',
+    'System Instruction 配置：enabled-是否使用原生 systemInstruction，legacy_prefix_models-仍使用 "System:" 前缀的模型名前缀列表'
+  ),
+  (
+    'key_selection_strategy',
+    '"round_robin"',
+    'Gemini Key 选择策略：round_robin-全局轮询，least_recently_used-最久未使用优先，weighted-按权重随机，latency-按平均延迟'
+  ),
+  (
+    'key_revalidation_config',
+    '{"enabled": true, "max_consecutive_failures": 5}',
+    '失效 Key 定时复检配置：enabled-是否定时复检失效的 Key，max_consecutive_failures-连续复检失败多少次后永久停用'
+  ),
+  (
+    'retry_policy_config',
+    '{"max_attempts": 5, "deadline_ms": 30000, "backoff_base_ms": 500, "backoff_max_ms": 8000}',
+    '请求重试策略配置：max_attempts-每个请求最多尝试的 Key 数，deadline_ms-重试截止时间（毫秒），backoff_base_ms / backoff_max_ms-上游过载时换 Key 前的退避时间范围（毫秒）'
   )
 ON CONFLICT (setting_key) DO NOTHING;
 
@@ -100,4 +237,23 @@ INSERT INTO public.access_keys (lpb_key, is_active)
 VALUES (
   'sk-laopobao12345', 
   true
-) ON CONFLICT (lpb_key) DO NOTHING;
\ No newline at end of file
+) ON CONFLICT (lpb_key) DO NOTHING;
+
+-- 已部署旧版本的数据库升级：执行以下语句补齐新增的字段（新部署可忽略，重复执行无副作用）
+-- 新增的表（如 stored_responses、batch_files、batches、batch_requests、key_health_checks）使用 CREATE TABLE IF NOT EXISTS，单独执行上方对应语句即可
+-- 新增的函数（sum_gemini_key_tokens、sum_access_key_tokens）使用 CREATE OR REPLACE FUNCTION，同样单独执行即可
+ALTER TABLE public.call_logs ADD COLUMN IF NOT EXISTS prompt_tokens integer;
+ALTER TABLE public.call_logs ADD COLUMN IF NOT EXISTS completion_tokens integer;
+ALTER TABLE public.call_logs ADD COLUMN IF NOT EXISTS total_tokens integer;
+ALTER TABLE public.call_logs ADD COLUMN IF NOT EXISTS request_id text;
+ALTER TABLE public.call_logs ADD COLUMN IF NOT EXISTS request_type text DEFAULT 'chat' NOT NULL;
+ALTER TABLE public.gemini_keys ADD COLUMN IF NOT EXISTS weight integer DEFAULT 1 NOT NULL;
+ALTER TABLE public.gemini_keys ADD COLUMN IF NOT EXISTS consecutive_failures integer DEFAULT 0 NOT NULL;
+ALTER TABLE public.gemini_keys ADD COLUMN IF NOT EXISTS last_checked_at timestamp with time zone;
+ALTER TABLE public.gemini_keys ADD COLUMN IF NOT EXISTS retired_at timestamp with time zone;
+CREATE INDEX IF NOT EXISTS idx_call_logs_request_id ON public.call_logs(request_id);
+ALTER TABLE public.stored_responses ADD COLUMN IF NOT EXISTS conversation_id text;
+ALTER TABLE public.stored_responses ADD COLUMN IF NOT EXISTS previous_response_id text;
+ALTER TABLE public.stored_responses ADD COLUMN IF NOT EXISTS expires_at timestamp with time zone DEFAULT (now() + interval '30 days') NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_stored_responses_conversation ON public.stored_responses(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_stored_responses_expires_at ON public.stored_responses(expires_at);
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertAnthropicToOpenAI,
+  convertGeminiChunkToAnthropicEvents,
+  createAnthropicMessage,
+  createAnthropicStreamEndEvents,
+  createAnthropicStreamState,
+  getStopSequences,
+} from '../anthropic';
+
+// Anthropic Messages 的 stop sequence 处理
+
+const textChunk = (text: string, finishReason?: string) => ({
+  candidates: [{ content: { parts: [{ text }] }, finishReason }],
+});
+
+// 从 SSE 事件中取出 message_delta 和拼接后的文本
+function readEvents(events: string[]) {
+  const data = events.map((event) => JSON.parse(event.split('\ndata: ')[1]));
+  return {
+    text: data.filter((item) => item.delta?.type === 'text_delta').map((item) => item.delta.text).join(''),
+    messageDelta: data.find((item) => item.type === 'message_delta')?.delta,
+  };
+}
+
+describe('getStopSequences', () => {
+  it('keeps stop sequences out of the upstream request', () => {
+    const body = { model: 'gemini-2.5-flash', max_tokens: 10, messages: [{ role: 'user', content: 'hi' }], stop_sequences: ['END'] };
+
+    expect(getStopSequences(body)).toEqual(['END']);
+    expect(convertAnthropicToOpenAI(body).stop).toBeUndefined();
+  });
+
+  it('rejects invalid stop sequences', () => {
+    expect(() => getStopSequences({ stop_sequences: 'END' })).toThrow("Invalid 'stop_sequences'");
+    expect(() => getStopSequences({ stop_sequences: [''] })).toThrow("Invalid 'stop_sequences'");
+  });
+});
+
+describe('createAnthropicMessage', () => {
+  it('cuts the text at the earliest stop sequence', () => {
+    const response = {
+      candidates: [{
+        content: { parts: [{ text: 'one\n\nHuman: two END three' }, { functionCall: { name: 'f', args: {} } }] },
+        finishReason: 'STOP',
+      }],
+    };
+
+    expect(createAnthropicMessage(response, 'm', 'msg_1', ['END', '\n\nHuman:'])).toMatchObject({
+      content: [{ type: 'text', text: 'one' }],
+      stop_reason: 'stop_sequence',
+      stop_sequence: '\n\nHuman:',
+    });
+  });
+
+  it('reports end_turn when no stop sequence matched', () => {
+    expect(createAnthropicMessage(textChunk('done', 'STOP'), 'm', 'msg_1', ['END'])).toMatchObject({
+      content: [{ type: 'text', text: 'done' }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+    });
+  });
+});
+
+describe('Anthropic stream stop sequences', () => {
+  it('matches stop sequences split across chunks', () => {
+    const state = createAnthropicStreamState(['STOP HERE']);
+    const events = [
+      ...convertGeminiChunkToAnthropicEvents(textChunk('abc ST'), state),
+      ...convertGeminiChunkToAnthropicEvents(textChunk('OP HE'), state),
+      ...convertGeminiChunkToAnthropicEvents(textChunk('RE more'), state),
+    ];
+
+    expect(state.stopSequence).toBe('STOP HERE');
+    expect(convertGeminiChunkToAnthropicEvents(textChunk('ignored'), state)).toEqual([]);
+    expect(readEvents([...events, ...createAnthropicStreamEndEvents(state)])).toEqual({
+      text: 'abc ',
+      messageDelta: { stop_reason: 'stop_sequence', stop_sequence: 'STOP HERE' },
+    });
+  });
+
+  it('sends held back text when the partial match does not complete', () => {
+    const state = createAnthropicStreamState(['END']);
+    const events = [
+      ...convertGeminiChunkToAnthropicEvents(textChunk('the E'), state),
+      ...convertGeminiChunkToAnthropicEvents(textChunk('N', 'STOP'), state),
+    ];
+
+    expect(readEvents([...events, ...createAnthropicStreamEndEvents(state)])).toEqual({
+      text: 'the EN',
+      messageDelta: { stop_reason: 'end_turn', stop_sequence: null },
+    });
+  });
+});
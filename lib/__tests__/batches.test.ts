@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchInput } from '../batches';
+
+// 批处理输入文件（JSONL）的解析与逐行校验
+
+const line = (customId: string, overrides: Record<string, any> = {}) => JSON.stringify({
+  custom_id: customId,
+  method: 'POST',
+  url: '/v1/chat/completions',
+  body: { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'hi' }] },
+  ...overrides,
+});
+
+describe('parseBatchInput', () => {
+  it('parses one request per line and skips blank lines', () => {
+    const requests = parseBatchInput(`${line('a')}\r\n\n${line('b')}\n`);
+
+    expect(requests.map((request) => request.custom_id)).toEqual(['a', 'b']);
+    expect(requests[0].body.model).toBe('gemini-2.5-flash');
+  });
+
+  it.each([
+    ['not json', 'Line 2 of the input file is not valid JSON'],
+    [line(''), "Line 2: 'custom_id' must be a non-empty string"],
+    [line('a'), "Line 2: duplicate custom_id 'a'"],
+    [line('b', { method: 'GET' }), "Line 2: 'method' must be 'POST'"],
+    [line('b', { url: '/v1/embeddings' }), "Line 2: 'url' must be '/v1/chat/completions'"],
+    [line('b', { body: [] }), "Line 2: 'body' must be an object"],
+    [line('b', { body: { messages: [{ role: 'user', content: 'hi' }] } }), "Line 2: 'body.model' is required"],
+    [line('b', { body: { model: 'gemini-2.5-flash', messages: [] } }), "Line 2: 'body.messages' must be a non-empty array"],
+  ])('rejects %s with the line number', (second, message) => {
+    expect(() => parseBatchInput(`${line('a')}\n${second}`)).toThrow(message);
+  });
+
+  it('reports errors against the input file', () => {
+    expect(() => parseBatchInput('{')).toThrow(expect.objectContaining({ statusCode: 400, param: 'input_file_id' }));
+  });
+
+  it('rejects files without requests', () => {
+    expect(() => parseBatchInput('\n  \n')).toThrow('The input file contains no requests');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeContents } from '../converter';
+
+// 发送给 Gemini 前的对话规范化：空消息、同角色合并、开头补 user、末尾续写
+
+const user = (text: string) => ({ role: 'user', parts: [{ text }] });
+const model = (text: string) => ({ role: 'model', parts: [{ text }] });
+const functionCall = (name: string) => ({ role: 'model', parts: [{ functionCall: { name, args: {} } }] });
+const functionResponse = (name: string) => ({ role: 'user', parts: [{ functionResponse: { name, response: { ok: true } } }] });
+
+describe('normalizeContents', () => {
+  it('drops empty turns and merges consecutive turns of the same role', () => {
+    expect(normalizeContents([user('a'), { role: 'model', parts: [] }, user('b'), model('c'), user('d')])).toEqual([
+      { role: 'user', parts: [{ text: 'a' }, { text: 'b' }] },
+      model('c'),
+      user('d'),
+    ]);
+  });
+
+  it('inserts a placeholder user turn when the conversation starts with the model', () => {
+    const normalized = normalizeContents([model('hello'), user('hi')]);
+    expect(normalized[0]).toEqual(user('Continue.'));
+    expect(normalized.slice(1)).toEqual([model('hello'), user('hi')]);
+  });
+
+  it('asks the model to continue a trailing assistant prefill', () => {
+    const normalized = normalizeContents([user('Write a haiku'), model('Autumn moonlight')]);
+    expect(normalized).toHaveLength(3);
+    expect(normalized[1]).toEqual(model('Autumn moonlight'));
+    expect(normalized[2].role).toBe('user');
+    expect(normalized[2].parts[0].text).toContain('Continue your previous message');
+  });
+
+  it('does not treat a trailing function call as a prefill', () => {
+    const contents = [user('weather?'), functionCall('get_weather')];
+    expect(normalizeContents(contents)).toEqual(contents);
+  });
+
+  it('merges parallel tool results but keeps them apart from the next user message', () => {
+    const normalized = normalizeContents([
+      user('compare'),
+      { role: 'model', parts: [{ functionCall: { name: 'a', args: {} } }, { functionCall: { name: 'b', args: {} } }] },
+      functionResponse('a'),
+      functionResponse('b'),
+      user('thanks'),
+    ]);
+
+    expect(normalized).toHaveLength(4);
+    expect(normalized[2]).toEqual({
+      role: 'user',
+      parts: [...functionResponse('a').parts, ...functionResponse('b').parts],
+    });
+    expect(normalized[3]).toEqual(user('thanks'));
+  });
+
+  it('does not merge a tool result into the preceding user text', () => {
+    const normalized = normalizeContents([user('q'), functionCall('f'), functionResponse('f')]);
+    expect(normalized[2]).toEqual(functionResponse('f'));
+  });
+
+  it('does not mutate the input turns', () => {
+    const first = user('a');
+    normalizeContents([first, user('b')]);
+    expect(first.parts).toEqual([{ text: 'a' }]);
+  });
+});
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { selectGeminiKeys, markKeyAsInvalid, startKeyCooldown, getRetryPolicyConfig } = vi.hoisted(() => ({
+  selectGeminiKeys: vi.fn(),
+  markKeyAsInvalid: vi.fn(),
+  startKeyCooldown: vi.fn(),
+  getRetryPolicyConfig: vi.fn(),
+}));
+
+vi.mock('../key-manager', () => ({
+  selectGeminiKeys,
+  markKeyAsInvalid,
+  updateKeyUsage: vi.fn(async () => {}),
+  recordKeyLatency: vi.fn(async () => {}),
+}));
+vi.mock('../key-cooldown', () => ({ startKeyCooldown }));
+vi.mock('../settings-manager', () => ({ getRetryPolicyConfig }));
+vi.mock('../logging', () => ({ logApiCall: vi.fn(async () => {}), getUsageLogData: () => ({}) }));
+
+import { callWithKeyFailover } from '../failover';
+
+// 按 key 依次重试：重试预算、截止时间、限流冷却与 key 失效
+
+const keys = ['a', 'b', 'c', 'd', 'e'].map((id) => ({ id, api_key: `key-${id}` }));
+
+const logContext = { request_id: 'req', model_requested: 'gemini-2.5-pro', request_type: 'chat' as const };
+
+function sdkError(status: number, statusText: string, message: string, errorDetails?: any[]) {
+  return Object.assign(new Error(`[${status} ${statusText}] ${message}`), { status, statusText, errorDetails });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  selectGeminiKeys.mockResolvedValue(keys);
+  markKeyAsInvalid.mockResolvedValue(undefined);
+  startKeyCooldown.mockResolvedValue(null);
+  getRetryPolicyConfig.mockResolvedValue({ max_attempts: 5, deadline_ms: 30000, backoff_base_ms: 0, backoff_max_ms: 0 });
+});
+
+describe('callWithKeyFailover', () => {
+  it('moves to the next key after a retryable error', async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(sdkError(500, 'Internal Server Error', 'internal'))
+      .mockResolvedValueOnce({ result: 'ok' });
+
+    await expect(callWithKeyFailover(logContext, '[TEST]', call)).resolves.toBe('ok');
+    expect(call.mock.calls.map(([key]) => key.id)).toEqual(['a', 'b']);
+  });
+
+  it('stops once the retry budget is exhausted', async () => {
+    getRetryPolicyConfig.mockResolvedValue({ max_attempts: 2, deadline_ms: 30000, backoff_base_ms: 0, backoff_max_ms: 0 });
+    const call = vi.fn().mockRejectedValue(sdkError(503, 'Service Unavailable', 'The model is overloaded'));
+
+    await expect(callWithKeyFailover(logContext, '[TEST]', call)).rejects.toMatchObject({
+      statusCode: 503,
+      message: expect.stringContaining('All 2 API keys failed'),
+    });
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry request errors', async () => {
+    const call = vi.fn().mockRejectedValue(sdkError(400, 'Bad Request', 'Invalid JSON payload'));
+
+    await expect(callWithKeyFailover(logContext, '[TEST]', call)).rejects.toMatchObject({ statusCode: 400 });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the pending attempt at the deadline and stops retrying', async () => {
+    getRetryPolicyConfig.mockResolvedValue({ max_attempts: 5, deadline_ms: 50, backoff_base_ms: 0, backoff_max_ms: 0 });
+    const signals: AbortSignal[] = [];
+    const call = vi.fn((_key, _logSuccess, signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<never>((_, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('Error fetching from https://x: This operation was aborted')));
+      });
+    });
+
+    await expect(callWithKeyFailover(logContext, '[TEST]', call)).rejects.toMatchObject({
+      statusCode: 503,
+      message: expect.stringContaining('All 1 API keys failed'),
+    });
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('puts rate-limited keys into cooldown on the requested model', async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(sdkError(429, 'Too Many Requests', 'Please retry in 20s.'))
+      .mockResolvedValueOnce({ result: 'ok' });
+
+    await expect(callWithKeyFailover(logContext, '[TEST]', call)).resolves.toBe('ok');
+    expect(selectGeminiKeys).toHaveBeenCalledWith('gemini-2.5-pro');
+    expect(startKeyCooldown).toHaveBeenCalledWith('a', 'gemini-2.5-pro', expect.objectContaining({ category: 'quota', retryDelayMs: 20000 }));
+    expect(markKeyAsInvalid).not.toHaveBeenCalled();
+  });
+
+  it('marks invalid keys instead of cooling them down', async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(sdkError(400, 'Bad Request', 'API key not valid.', [
+        { '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' },
+      ]))
+      .mockResolvedValueOnce({ result: 'ok' });
+
+    await expect(callWithKeyFailover(logContext, '[TEST]', call)).resolves.toBe('ok');
+    expect(markKeyAsInvalid).toHaveBeenCalledWith('a', expect.any(String));
+    expect(startKeyCooldown).not.toHaveBeenCalled();
+  });
+
+  it('keeps countTokens out of model cooldowns', async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(sdkError(429, 'Too Many Requests', 'quota'))
+      .mockResolvedValueOnce({ result: 'ok' });
+
+    await expect(callWithKeyFailover({ ...logContext, request_type: 'count_tokens' }, '[TEST]', call)).resolves.toBe('ok');
+    expect(selectGeminiKeys).toHaveBeenCalledWith(undefined);
+    expect(startKeyCooldown).not.toHaveBeenCalled();
+  });
+});
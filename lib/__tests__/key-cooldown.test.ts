@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 内存中的 KV：字符串值与 hash
+const { store, hashes } = vi.hoisted(() => ({
+  store: new Map<string, any>(),
+  hashes: new Map<string, Record<string, any>>(),
+}));
+
+vi.mock('@vercel/kv', () => {
+  const hash = (key: string) => hashes.get(key) || {};
+  return {
+    kv: {
+      get: async (key: string) => store.get(key) ?? null,
+      setex: async (key: string, _ttl: number, value: any) => store.set(key, value),
+      incr: async (key: string) => {
+        store.set(key, (store.get(key) || 0) + 1);
+        return store.get(key);
+      },
+      hget: async (key: string, field: string) => hash(key)[field] ?? null,
+      hgetall: async (key: string) => hashes.get(key) ?? null,
+      hmget: async (key: string, ...fields: string[]) => Object.fromEntries(fields.map((field) => [field, hash(key)[field] ?? null])),
+      hset: async (key: string, values: Record<string, any>) => hashes.set(key, { ...hash(key), ...values }),
+      hdel: async (key: string, ...fields: string[]) => {
+        const values = { ...hash(key) };
+        fields.forEach((field) => delete values[field]);
+        hashes.set(key, values);
+      },
+    },
+  };
+});
+
+import { filterCoolingKeys, getKeyCooldowns, startKeyCooldown } from '../key-cooldown';
+import { selectGeminiKeys } from '../key-manager';
+import { UpstreamErrorInfo } from '../upstream-errors';
+
+// Key 按模型冷却，以及选 key 时跳过冷却中的 key
+
+const keys = [{ id: 'a', api_key: 'ka' }, { id: 'b', api_key: 'kb' }, { id: 'c', api_key: 'kc' }];
+
+const quotaError = (overrides: Partial<UpstreamErrorInfo> = {}): UpstreamErrorInfo => ({
+  category: 'quota',
+  httpStatus: 429,
+  status: 'RESOURCE_EXHAUSTED',
+  reason: null,
+  message: 'quota',
+  retryDelayMs: null,
+  isDailyQuota: false,
+  retryable: true,
+  invalidatesKey: false,
+  statusCode: 429,
+  ...overrides,
+});
+
+beforeEach(() => {
+  store.clear();
+  hashes.clear();
+  store.set('gemini_keys_cache', keys);
+});
+
+describe('startKeyCooldown', () => {
+  it('uses the upstream retry delay', async () => {
+    const cooldown = await startKeyCooldown('a', 'models/gemini-2.5-pro', quotaError({ retryDelayMs: 37000 }));
+
+    expect(cooldown).toMatchObject({ keyId: 'a', model: 'gemini-2.5-pro', reason: 'retry_after', strikes: 1 });
+    expect(cooldown!.until - Date.now()).toBeGreaterThan(36000);
+  });
+
+  it('backs off exponentially on repeated rate limits without a retry hint', async () => {
+    const first = await startKeyCooldown('a', 'gemini-2.5-pro', quotaError());
+    const second = await startKeyCooldown('a', 'gemini-2.5-pro', quotaError());
+
+    expect(first).toMatchObject({ reason: 'backoff', strikes: 1 });
+    expect(second).toMatchObject({ reason: 'backoff', strikes: 2 });
+    expect(second!.until - Date.now()).toBeGreaterThan(first!.until - Date.now() + 20000);
+  });
+
+  it('waits for the daily reset when the daily quota is exhausted', async () => {
+    const cooldown = await startKeyCooldown('a', 'gemini-2.5-pro', quotaError({ isDailyQuota: true, retryDelayMs: 5000 }));
+
+    expect(cooldown!.reason).toBe('daily_quota');
+    expect(cooldown!.until - Date.now()).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+  });
+});
+
+describe('cooldown skipping', () => {
+  it('skips keys only on the model they are cooling on', async () => {
+    await startKeyCooldown('b', 'gemini-2.5-pro', quotaError({ retryDelayMs: 60000 }));
+
+    expect((await filterCoolingKeys(keys, 'gemini-2.5-pro')).keys.map((key) => key.id)).toEqual(['a', 'c']);
+    expect((await filterCoolingKeys(keys, 'gemini-2.5-flash')).keys).toEqual(keys);
+    expect((await selectGeminiKeys('gemini-2.5-pro', 'round_robin')).map((key) => key.id).sort()).toEqual(['a', 'c']);
+  });
+
+  it('ignores cooldowns that have ended', async () => {
+    hashes.set('gemini_key_cooldowns', {
+      'a:gemini-2.5-pro': { keyId: 'a', model: 'gemini-2.5-pro', until: Date.now() - 1000, reason: 'backoff', strikes: 1 },
+    });
+
+    expect((await filterCoolingKeys(keys, 'gemini-2.5-pro')).keys).toEqual(keys);
+    expect(await getKeyCooldowns()).toEqual([]);
+  });
+
+  it('rejects with Retry-After when every key is cooling on the model', async () => {
+    await Promise.all(keys.map((key, index) => startKeyCooldown(key.id, 'gemini-2.5-pro', quotaError({ retryDelayMs: (index + 1) * 10000 }))));
+
+    const { keys: readyKeys, nextAvailableAt } = await filterCoolingKeys(keys, 'gemini-2.5-pro');
+    expect(readyKeys).toEqual([]);
+    expect(nextAvailableAt! - Date.now()).toBeLessThanOrEqual(10000);
+
+    await expect(selectGeminiKeys('gemini-2.5-pro', 'round_robin')).rejects.toMatchObject({
+      statusCode: 429,
+      headers: { 'Retry-After': '10' },
+    });
+  });
+});
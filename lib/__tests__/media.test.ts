@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { lookup } = vi.hoisted(() => ({ lookup: vi.fn() }));
+vi.mock('node:dns/promises', () => ({ lookup }));
+
+import { fetchRemoteMedia, isPublicMediaUrl, parseDataUrl } from '../media';
+
+// 远程媒体下载（内网地址拦截、重定向、大小限制）与 data URL 解析
+
+// 分多个 chunk 返回的响应体，不带 content-length
+function chunkedBody(chunks: number[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((size) => controller.enqueue(new Uint8Array(size)));
+      controller.close();
+    },
+  });
+}
+
+describe('parseDataUrl', () => {
+  it('parses base64 data URLs and normalizes the MIME type', () => {
+    expect(parseDataUrl('data:image/jpg;base64,aGk=')).toEqual({ mimeType: 'image/jpeg', data: 'aGk=' });
+  });
+
+  it('returns null for non-base64 data URLs', () => {
+    expect(parseDataUrl('data:text/plain,hello')).toBeNull();
+  });
+});
+
+describe('isPublicMediaUrl', () => {
+  it.each([
+    'https://example.com/cat.png',
+    'http://8.8.8.8/image.jpg',
+    'https://[2001:4860:4860::8888]/a.png',
+  ])('allows %s', (url) => {
+    expect(isPublicMediaUrl(url)).toBe(true);
+  });
+
+  it.each([
+    'ftp://example.com/cat.png',
+    'http://localhost:3000/a.png',
+    'http://api.localhost/a.png',
+    'http://127.0.0.1/a.png',
+    'http://2130706433/a.png',
+    'http://0x7f.1/a.png',
+    'http://10.1.2.3/a.png',
+    'http://172.20.0.1/a.png',
+    'http://192.168.1.1/a.png',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://metadata.google.internal/computeMetadata/v1/',
+    'http://[::1]/a.png',
+    'http://[::ffff:127.0.0.1]/a.png',
+    'http://[fd00::1]/a.png',
+    'http://[fe80::1]/a.png',
+    'not a url',
+  ])('blocks %s', (url) => {
+    expect(isPublicMediaUrl(url)).toBe(false);
+  });
+});
+
+describe('fetchRemoteMedia', () => {
+  beforeEach(() => {
+    lookup.mockImplementation(async (hostname: string) => [
+      { address: hostname.startsWith('internal.') ? '10.0.0.5' : '93.184.216.34', family: 4 },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    lookup.mockReset();
+  });
+
+  it('downloads media and falls back to the extension for the MIME type', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([104, 105]), {
+      headers: { 'content-type': 'application/octet-stream' },
+    })));
+
+    await expect(fetchRemoteMedia('https://example.com/a.png')).resolves.toEqual({ mimeType: 'image/png', data: 'aGk=' });
+  });
+
+  it('rejects private addresses without sending a request', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchRemoteMedia('http://169.254.169.254/latest/meta-data/')).rejects.toMatchObject({ statusCode: 400 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects hostnames that resolve to private addresses', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    lookup.mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }, { address: '::ffff:127.0.0.1', family: 6 }]);
+
+    await expect(fetchRemoteMedia('https://127.0.0.1.nip.io/a.png')).rejects.toThrow('public http(s) address');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('resolves every redirect target', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, {
+      status: 302,
+      headers: { location: 'https://internal.example.com/secret' },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchRemoteMedia('https://example.com/a.png')).rejects.toThrow('public http(s) address');
+    expect(lookup).toHaveBeenLastCalledWith('internal.example.com', expect.anything());
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('is disabled on the Edge runtime unless ALLOW_EDGE_REMOTE_MEDIA is set', async () => {
+    vi.stubGlobal('EdgeRuntime', 'edge-runtime');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([104, 105]), {
+      headers: { 'content-type': 'image/png' },
+    })));
+
+    await expect(fetchRemoteMedia('https://example.com/a.png')).rejects.toThrow('base64 data URL');
+
+    vi.stubEnv('ALLOW_EDGE_REMOTE_MEDIA', 'true');
+    await expect(fetchRemoteMedia('https://example.com/a.png')).resolves.toEqual({ mimeType: 'image/png', data: 'aGk=' });
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('checks every redirect target', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, {
+      status: 302,
+      headers: { location: 'http://127.0.0.1/secret' },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchRemoteMedia('https://example.com/a.png')).rejects.toThrow('public http(s) address');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops following redirects after the limit', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, {
+      status: 301,
+      headers: { location: '/next' },
+    })));
+
+    await expect(fetchRemoteMedia('https://example.com/a.png')).rejects.toThrow('redirects');
+  });
+
+  it('aborts streamed bodies that exceed the limit', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(chunkedBody([6, 6]))));
+
+    await expect(fetchRemoteMedia('https://example.com/a.png', 10)).rejects.toThrow('Media is too large');
+  });
+
+  it('does not echo the URL in error messages', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('missing', { status: 404 })));
+
+    const error = await fetchRemoteMedia('https://example.com/private-token/a.png').catch((e) => e);
+    expect(error.message).toBe('Failed to download media: HTTP 404');
+    expect(error.message).not.toContain('private-token');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createModerationResult, parseModerationRequest, DEFAULT_MODERATION_MODEL } from '../moderations';
+
+// moderations 请求解析，以及 Gemini 安全评级到 OpenAI 审核结果的转换
+
+describe('parseModerationRequest', () => {
+  it('accepts a single string and maps OpenAI model names to the default Gemini model', () => {
+    expect(parseModerationRequest({ input: 'hello' })).toEqual({
+      model: 'omni-moderation-latest',
+      geminiModel: DEFAULT_MODERATION_MODEL,
+      inputs: ['hello'],
+    });
+  });
+
+  it('keeps Gemini model names', () => {
+    expect(parseModerationRequest({ input: 'hi', model: 'gemini-2.5-flash' }).geminiModel).toBe('gemini-2.5-flash');
+  });
+
+  it('returns one input per string and one input for a content part array', () => {
+    expect(parseModerationRequest({ input: ['a', 'b'] }).inputs).toEqual(['a', 'b']);
+
+    const parts = [{ type: 'text', text: 'look' }, { type: 'image_url', image_url: { url: 'https://example.com/a.png' } }];
+    expect(parseModerationRequest({ input: parts }).inputs).toEqual([parts]);
+  });
+
+  it.each([
+    [{}, "Invalid 'input'"],
+    [{ input: [] }, "Invalid 'input'"],
+    [{ input: ['a', 1] }, "Invalid 'input'"],
+    [{ input: '' }, 'must not be empty'],
+    [{ input: [{ type: 'audio' }] }, "Unsupported 'input[0].type'"],
+    [{ input: 'a', model: 1 }, "Invalid 'model'"],
+    [{ input: Array.from({ length: 33 }, () => 'x') }, 'Too many inputs'],
+  ])('rejects %j', (body, message) => {
+    expect(() => parseModerationRequest(body)).toThrow(message);
+  });
+});
+
+describe('createModerationResult', () => {
+  it('maps Gemini ratings to OpenAI categories using the highest score', () => {
+    const result = createModerationResult({
+      promptFeedback: { safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT', probability: 'LOW' }] },
+      candidates: [{
+        safetyRatings: [
+          { category: 'HARM_CATEGORY_HARASSMENT', probability: 'MEDIUM' },
+          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'NEGLIGIBLE' },
+        ],
+      }],
+    }, 'text');
+
+    expect(result.flagged).toBe(true);
+    expect(result.categories.harassment).toBe(true);
+    expect(result.category_scores.harassment).toBe(0.6);
+    expect(result.categories.violence).toBe(false);
+    expect(result.category_scores['harassment/threatening']).toBe(0);
+  });
+
+  it('prefers probabilityScore when present', () => {
+    const result = createModerationResult({
+      candidates: [{ safetyRatings: [{ category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'HIGH', probabilityScore: 0.42 }] }],
+    }, 'text');
+
+    expect(result.category_scores.hate).toBe(0.42);
+    expect(result.flagged).toBe(false);
+  });
+
+  it('flags prompts blocked for reasons other than a safety category', () => {
+    const result = createModerationResult({ promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } }, 'text');
+
+    expect(result.flagged).toBe(true);
+    expect(Object.values(result.categories).some(Boolean)).toBe(false);
+  });
+
+  it('reports the input modalities for mapped categories only', () => {
+    const result = createModerationResult({}, [{ type: 'text', text: 'a' }, { type: 'image_url' }]);
+
+    expect(result.category_applied_input_types.sexual).toEqual(['text', 'image']);
+    expect(result.category_applied_input_types['sexual/minors']).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { convertJsonSchemaToGemini } from '../schema-converter';
+
+// JSON Schema 转 Gemini Schema：关键字裁剪、nullable、$ref 展开与不支持结构的报错
+
+describe('convertJsonSchemaToGemini', () => {
+  it('converts objects, arrays and formats, dropping unsupported keywords', () => {
+    const schema = {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        name: { type: 'string', description: 'Full name', pattern: '^[A-Z]' },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+        score: { type: 'number', format: 'double', default: 0 },
+        created: { type: 'string', format: 'uri' },
+      },
+      required: ['name', 'missing'],
+    };
+
+    expect(convertJsonSchemaToGemini(schema, 'response_format')).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Full name' },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+        score: { type: 'number', format: 'double' },
+        created: { type: 'string' },
+      },
+      required: ['name'],
+    });
+  });
+
+  it('turns null variants into nullable', () => {
+    expect(convertJsonSchemaToGemini({ type: ['string', 'null'] }, 'p')).toEqual({ type: 'string', nullable: true });
+    expect(convertJsonSchemaToGemini({ anyOf: [{ type: 'integer' }, { type: 'null' }] }, 'p')).toEqual({ type: 'integer', nullable: true });
+  });
+
+  it('keeps multiple variants as anyOf', () => {
+    expect(convertJsonSchemaToGemini({ type: ['string', 'number'] }, 'p')).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+    });
+  });
+
+  it('converts const and string enums', () => {
+    expect(convertJsonSchemaToGemini({ const: 'fixed' }, 'p')).toEqual({ type: 'string', enum: ['fixed'], format: 'enum' });
+    expect(convertJsonSchemaToGemini({ enum: ['a', 'b', null] }, 'p')).toEqual({
+      type: 'string',
+      enum: ['a', 'b'],
+      format: 'enum',
+      nullable: true,
+    });
+  });
+
+  it('resolves local $ref and merges allOf', () => {
+    const schema = {
+      $defs: {
+        Base: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      },
+      allOf: [
+        { $ref: '#/$defs/Base' },
+        { properties: { label: { type: 'string' } } },
+      ],
+    };
+
+    expect(convertJsonSchemaToGemini(schema, 'p')).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' }, label: { type: 'string' } },
+      required: ['id'],
+    });
+  });
+
+  it.each([
+    [{ type: 'object', properties: { next: { $ref: '#' } } }, 'recursive $ref'],
+    [{ type: 'object' }, 'free-form objects'],
+    [{ not: { type: 'string' } }, '"not" is not supported'],
+    [{ enum: [1, 2] }, 'string enum values'],
+    [{ type: 'array' }, 'single "items" schema'],
+    [{ $ref: 'https://example.com/schema.json' }, 'only local $ref'],
+  ])('rejects %j', (schema, message) => {
+    expect(() => convertJsonSchemaToGemini(schema, 'tools[0].function.parameters')).toThrow(message);
+  });
+
+  it('reports the request path in errors', () => {
+    expect(() => convertJsonSchemaToGemini({ type: 'object', properties: { a: { type: 'date' } } }, 'response_format'))
+      .toThrow('Unsupported JSON Schema at response_format.properties.a: unknown type "date"');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from '../config';
+import { classifyUpstreamError, createFinalError, GeminiUpstreamError } from '../upstream-errors';
+
+// 上游错误分类与最终错误映射
+
+// 与 SDK 的 GoogleGenerativeAIFetchError 结构一致
+function sdkError(status: number, statusText: string, message: string, errorDetails?: any[]) {
+  return Object.assign(new Error(`[GoogleGenerativeAI Error]: Error fetching from https://generativelanguage.googleapis.com: [${status} ${statusText}] ${message}`), {
+    status,
+    statusText,
+    errorDetails,
+  });
+}
+
+describe('classifyUpstreamError', () => {
+  it('treats invalid keys as retryable and key-invalidating', () => {
+    const info = classifyUpstreamError(sdkError(400, 'Bad Request', 'API key not valid. Please pass a valid API key.', [
+      { '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' },
+    ]));
+
+    expect(info).toMatchObject({ category: 'key_invalid', reason: 'API_KEY_INVALID', retryable: true, invalidatesKey: true, statusCode: 401 });
+  });
+
+  it('reads the retry delay and daily quota from 429 details', () => {
+    const info = classifyUpstreamError(sdkError(429, 'Too Many Requests', 'Resource has been exhausted', [
+      { '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [{ quotaId: 'GenerateRequestsPerDayPerProjectPerModel-FreeTier' }] },
+      { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' },
+    ]));
+
+    expect(info).toMatchObject({ category: 'quota', status: 'RESOURCE_EXHAUSTED', retryDelayMs: 37000, isDailyQuota: true, retryable: true });
+  });
+
+  it('falls back to the retry hint in the message', () => {
+    expect(classifyUpstreamError(sdkError(429, 'Too Many Requests', 'Please retry in 2.5s.')).retryDelayMs).toBe(2500);
+  });
+
+  it('does not retry request errors', () => {
+    expect(classifyUpstreamError(sdkError(400, 'Bad Request', 'Invalid JSON payload'))).toMatchObject({ category: 'bad_request', retryable: false });
+    expect(classifyUpstreamError(sdkError(404, 'Not Found', 'models/foo is not found'))).toMatchObject({ category: 'model_not_found', statusCode: 404 });
+    expect(classifyUpstreamError(sdkError(403, 'Forbidden', 'Caller does not have permission'))).toMatchObject({ category: 'permission', retryable: false });
+  });
+
+  it('keeps the upstream 5xx status code', () => {
+    expect(classifyUpstreamError(sdkError(503, 'Service Unavailable', 'The model is overloaded'))).toMatchObject({
+      category: 'upstream',
+      status: 'UNAVAILABLE',
+      statusCode: 503,
+      retryable: true,
+    });
+  });
+
+  it('parses REST errors from GeminiUpstreamError', () => {
+    const error = new GeminiUpstreamError(429, 'Too Many Requests', JSON.stringify({
+      error: { code: 429, message: 'Quota exceeded', status: 'RESOURCE_EXHAUSTED' },
+    }));
+
+    expect(error.message).toBe('[429 Too Many Requests] Quota exceeded');
+    expect(classifyUpstreamError(error)).toMatchObject({ category: 'quota', httpStatus: 429, status: 'RESOURCE_EXHAUSTED' });
+  });
+
+  it('classifies errors without an HTTP status', () => {
+    expect(classifyUpstreamError(new TypeError('fetch failed'))).toMatchObject({ category: 'network', statusCode: 502, retryable: true });
+    expect(classifyUpstreamError(new Error('Error fetching from https://x: This operation was aborted')).category).toBe('network');
+    expect(classifyUpstreamError(Object.assign(new Error('Candidate was blocked due to SAFETY'), { name: 'GoogleGenerativeAIResponseError' })))
+      .toMatchObject({ category: 'safety', retryable: false });
+    expect(classifyUpstreamError(new Error('something odd'))).toMatchObject({ category: 'unknown', retryable: true });
+  });
+
+  it('passes ApiError through as a client error', () => {
+    expect(classifyUpstreamError(new ApiError(413, 'Too large'))).toMatchObject({ category: 'client', statusCode: 413, retryable: false });
+  });
+});
+
+describe('createFinalError', () => {
+  it('summarizes the last error by category', () => {
+    expect(createFinalError(sdkError(429, 'Too Many Requests', 'quota'), 3).statusCode).toBe(429);
+    expect(createFinalError(sdkError(401, 'Unauthorized', 'API key expired'), 3).message).toBe('All API keys are invalid');
+    expect(createFinalError(sdkError(404, 'Not Found', 'no model'), 1)).toMatchObject({ statusCode: 404, code: 'model_not_found' });
+    expect(createFinalError(new TypeError('fetch failed'), 2).message).toBe('All 2 API keys failed. Last error: fetch failed');
+  });
+
+  it('returns ApiError unchanged', () => {
+    const error = new ApiError(400, 'bad');
+    expect(createFinalError(error, 1)).toBe(error);
+  });
+});
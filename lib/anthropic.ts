@@ -0,0 +1,512 @@
+import { ApiError } from './config';
+import { mapFinishReason } from './converter';
+
+// Anthropic 错误类型（按状态码）
+const ANTHROPIC_ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  429: 'rate_limit_error',
+  500: 'api_error',
+  503: 'overloaded_error',
+};
+
+// OpenAI finish_reason 对应的 Anthropic stop_reason
+const STOP_REASONS: Record<string, string> = {
+  tool_calls: 'tool_use',
+  length: 'max_tokens',
+  content_filter: 'refusal',
+  stop: 'end_turn',
+};
+
+// 生成 Anthropic 格式的 ID（msg_xxx、toolu_xxx）
+export function generateAnthropicId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+// Anthropic 格式的错误响应体
+export function toAnthropicError(apiError: ApiError) {
+  return {
+    type: 'error',
+    error: {
+      type: ANTHROPIC_ERROR_TYPES[apiError.statusCode] || 'api_error',
+      message: apiError.message,
+    },
+  };
+}
+
+// Anthropic 图片/文档 source 转换为 data URL 或远程 URL
+function convertSource(source: any, path: string): string {
+  if (source?.type === 'base64' && source.media_type && typeof source.data === 'string') {
+    return `data:${source.media_type};base64,${source.data}`;
+  }
+  if (source?.type === 'url' && typeof source.url === 'string') {
+    return source.url;
+  }
+  throw new ApiError(400, `Unsupported source at ${path}, expected a base64 or url source`);
+}
+
+// Anthropic 内容块转换为 OpenAI 内容块（text / image / document）
+function convertMediaBlock(block: any, path: string): any {
+  switch (block?.type) {
+    case 'text':
+      return { type: 'text', text: block.text };
+    case 'image':
+      return { type: 'image_url', image_url: { url: convertSource(block.source, `${path}.source`) } };
+    case 'document':
+      if (block.source?.type === 'text') {
+        return { type: 'text', text: block.source.data };
+      }
+      return { type: 'file', file: { file_data: convertSource(block.source, `${path}.source`) } };
+    default:
+      throw new ApiError(400, `Unsupported content block type "${block?.type}" at ${path}`);
+  }
+}
+
+// 将 Anthropic 消息内容统一为内容块数组
+function toBlocks(content: any, path: string): any[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }];
+  }
+  if (!Array.isArray(content)) {
+    throw new ApiError(400, `Invalid content at ${path}, expected a string or an array of content blocks`);
+  }
+  return content;
+}
+
+// 转换 tool_result 块为 OpenAI tool 消息，结果中的图片放到随后的用户消息中
+function convertToolResult(block: any, path: string): { toolMessage: any; mediaParts: any[] } {
+  const textParts: string[] = [];
+  const mediaParts: any[] = [];
+  toBlocks(block.content ?? '', `${path}.content`).forEach((item: any, index: number) => {
+    const part = convertMediaBlock(item, `${path}.content[${index}]`);
+    if (part.type === 'text') {
+      textParts.push(part.text);
+    } else {
+      mediaParts.push(part);
+    }
+  });
+
+  const text = textParts.join('\n');
+  return {
+    toolMessage: {
+      role: 'tool',
+      tool_call_id: block.tool_use_id,
+      content: block.is_error ? JSON.stringify({ error: text }) : text,
+    },
+    mediaParts,
+  };
+}
+
+// 转换 Anthropic tools
+function convertTools(tools: any): any[] | undefined {
+  if (tools === undefined || tools === null) {
+    return undefined;
+  }
+  if (!Array.isArray(tools)) {
+    throw new ApiError(400, "Invalid 'tools': expected an array", 'tools');
+  }
+
+  return tools.map((tool: any, index: number) => {
+    if (tool?.type && tool.type !== 'custom') {
+      throw new ApiError(400, `Unsupported tool type "${tool.type}" at tools[${index}], only custom tools are supported`, 'tools');
+    }
+    return {
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema,
+      },
+    };
+  });
+}
+
+// 转换 Anthropic tool_choice
+function convertToolChoice(toolChoice: any): any {
+  switch (toolChoice?.type) {
+    case undefined:
+      return undefined;
+    case 'auto':
+      return 'auto';
+    case 'any':
+      return 'required';
+    case 'none':
+      return 'none';
+    case 'tool':
+      return { type: 'function', function: { name: toolChoice.name } };
+    default:
+      throw new ApiError(400, `Invalid 'tool_choice.type': "${toolChoice.type}"`, 'tool_choice');
+  }
+}
+
+// 转换 Anthropic thinking 参数为 thinking_budget 扩展参数
+function convertThinking(thinking: any): number | undefined {
+  if (!thinking) {
+    return undefined;
+  }
+  if (thinking.type === 'disabled') {
+    return 0;
+  }
+  if (thinking.type === 'enabled') {
+    return thinking.budget_tokens;
+  }
+  throw new ApiError(400, `Invalid 'thinking.type': "${thinking.type}"`, 'thinking');
+}
+
+/**
+ * 读取 Anthropic stop_sequences
+ * Gemini 命中 stop sequence 时只返回 STOP，不说明命中了哪一个，因此不转发给上游，由本地截断输出
+ */
+export function getStopSequences(body: any): string[] {
+  const stopSequences = body?.stop_sequences;
+  if (stopSequences === undefined || stopSequences === null) {
+    return [];
+  }
+  if (!Array.isArray(stopSequences) || stopSequences.some((item: any) => typeof item !== 'string' || item === '')) {
+    throw new ApiError(400, "Invalid 'stop_sequences': expected an array of non-empty strings", 'stop_sequences');
+  }
+  return stopSequences;
+}
+
+// 在文本中查找最早出现的 stop sequence
+function findStopSequence(text: string, stopSequences: string[]): { index: number; sequence: string } | null {
+  let match: { index: number; sequence: string } | null = null;
+  for (const sequence of stopSequences) {
+    const index = text.indexOf(sequence);
+    if (index !== -1 && (!match || index < match.index)) {
+      match = { index, sequence };
+    }
+  }
+  return match;
+}
+
+// 文本末尾可能是某个 stop sequence 的开头，流式输出时需要暂缓发送的长度
+function getPartialStopLength(text: string, stopSequences: string[]): number {
+  let length = 0;
+  for (const sequence of stopSequences) {
+    for (let size = Math.min(sequence.length - 1, text.length); size > length; size--) {
+      if (text.endsWith(sequence.slice(0, size))) {
+        length = size;
+        break;
+      }
+    }
+  }
+  return length;
+}
+
+/**
+ * 将 Anthropic Messages 请求转换为 OpenAI Chat Completions 请求，之后复用 convertOpenAItoGemini
+ * stop_sequences 不在转换结果中，见 getStopSequences
+ */
+export function convertAnthropicToOpenAI(body: any): any {
+  const { model, system, messages, max_tokens: maxTokens } = body || {};
+
+  if (!model) {
+    throw new ApiError(400, "'model' is required", 'model');
+  }
+  if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw new ApiError(400, "'max_tokens' is required and must be a positive integer", 'max_tokens');
+  }
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new ApiError(400, "'messages' must be a non-empty array", 'messages');
+  }
+
+  const openaiMessages: any[] = [];
+  if (system) {
+    const systemText = toBlocks(system, 'system')
+      .map((block: any) => block.text)
+      .filter(Boolean)
+      .join('\n');
+    openaiMessages.push({ role: 'system', content: systemText });
+  }
+
+  messages.forEach((message: any, index: number) => {
+    const path = `messages[${index}]`;
+    const blocks = toBlocks(message?.content, `${path}.content`);
+
+    if (message?.role === 'user') {
+      const userParts: any[] = [];
+      blocks.forEach((block: any, blockIndex: number) => {
+        const blockPath = `${path}.content[${blockIndex}]`;
+        if (block?.type === 'tool_result') {
+          const { toolMessage, mediaParts } = convertToolResult(block, blockPath);
+          openaiMessages.push(toolMessage);
+          userParts.push(...mediaParts);
+        } else {
+          userParts.push(convertMediaBlock(block, blockPath));
+        }
+      });
+      if (userParts.length > 0) {
+        openaiMessages.push({ role: 'user', content: userParts });
+      }
+    } else if (message?.role === 'assistant') {
+      let text = '';
+      const toolCalls: any[] = [];
+      for (const block of blocks) {
+        if (block?.type === 'text') {
+          text += block.text;
+        } else if (block?.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input || {}) },
+          });
+        }
+        // thinking / redacted_thinking 块无法回传给 Gemini，直接忽略
+      }
+      openaiMessages.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+    } else {
+      throw new ApiError(400, `Invalid role "${message?.role}" at ${path}, expected user or assistant`, 'messages');
+    }
+  });
+
+  return {
+    model,
+    messages: openaiMessages,
+    max_tokens: maxTokens,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    top_k: body.top_k,
+    tools: convertTools(body.tools),
+    tool_choice: convertToolChoice(body.tool_choice),
+    thinking_budget: convertThinking(body.thinking),
+    stream: body.stream === true,
+  };
+}
+
+// Gemini usageMetadata 转换为 Anthropic usage
+export function convertAnthropicUsage(usageMetadata: any) {
+  return {
+    input_tokens: usageMetadata?.promptTokenCount || 0,
+    output_tokens: (usageMetadata?.candidatesTokenCount || 0) + (usageMetadata?.thoughtsTokenCount || 0),
+    cache_read_input_tokens: usageMetadata?.cachedContentTokenCount || 0,
+  };
+}
+
+// Gemini part 转换为 Anthropic 内容块
+function convertPartToBlock(part: any): any | null {
+  if (typeof part.text === 'string' && part.thought) {
+    return { type: 'thinking', thinking: part.text, signature: '' };
+  }
+  if (typeof part.text === 'string') {
+    return { type: 'text', text: part.text };
+  }
+  if (part.functionCall) {
+    return {
+      type: 'tool_use',
+      id: generateAnthropicId('toolu'),
+      name: part.functionCall.name,
+      input: part.functionCall.args || {},
+    };
+  }
+  return null;
+}
+
+// 将 Gemini 响应转换为 Anthropic Message，文本在第一个 stop sequence 处截断
+export function createAnthropicMessage(geminiResponse: any, model: string, id: string, stopSequences: string[] = []) {
+  const candidate = geminiResponse?.candidates?.[0] || {};
+  const content: any[] = [];
+  for (const part of candidate.content?.parts || []) {
+    const block = convertPartToBlock(part);
+    const lastBlock = content[content.length - 1];
+    // 相邻的同类文本块合并
+    if (block?.type === 'text' && lastBlock?.type === 'text') {
+      lastBlock.text += block.text;
+    } else if (block?.type === 'thinking' && lastBlock?.type === 'thinking') {
+      lastBlock.thinking += block.thinking;
+    } else if (block) {
+      content.push(block);
+    }
+  }
+
+  let stopSequence: string | null = null;
+  for (let index = 0; index < content.length; index++) {
+    const match = content[index].type === 'text' ? findStopSequence(content[index].text, stopSequences) : null;
+    if (match) {
+      // 命中后的内容（包括之后的块）全部丢弃
+      content[index].text = content[index].text.slice(0, match.index);
+      content.splice(content[index].text ? index + 1 : index);
+      stopSequence = match.sequence;
+      break;
+    }
+  }
+
+  const hasToolUse = content.some((block) => block.type === 'tool_use');
+  return {
+    id,
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+    stop_reason: stopSequence ? 'stop_sequence' : STOP_REASONS[mapFinishReason(candidate.finishReason, hasToolUse)],
+    stop_sequence: stopSequence,
+    usage: convertAnthropicUsage(geminiResponse?.usageMetadata),
+  };
+}
+
+// 格式化一条 Anthropic SSE 事件
+export function formatAnthropicEvent(event: string, data: any): string {
+  return `event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`;
+}
+
+// 流式转换过程中需要跨 chunk 保留的状态
+export interface AnthropicStreamState {
+  // 当前打开的内容块序号和类型
+  blockIndex: number;
+  blockType: string | null;
+  hasToolUse: boolean;
+  finishReason?: string;
+  usageMetadata: any;
+  stopSequences: string[];
+  // 可能是 stop sequence 开头、暂缓发送的文本
+  pendingText: string;
+  // 命中的 stop sequence，命中后不再输出内容，调用方应停止读取上游
+  stopSequence: string | null;
+}
+
+export function createAnthropicStreamState(stopSequences: string[] = []): AnthropicStreamState {
+  return {
+    blockIndex: -1,
+    blockType: null,
+    hasToolUse: false,
+    usageMetadata: null,
+    stopSequences,
+    pendingText: '',
+    stopSequence: null,
+  };
+}
+
+// 流开始事件
+export function createMessageStartEvent(id: string, model: string, firstChunk: any): string {
+  return formatAnthropicEvent('message_start', {
+    message: {
+      id,
+      type: 'message',
+      role: 'assistant',
+      model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { ...convertAnthropicUsage(firstChunk?.usageMetadata), output_tokens: 0 },
+    },
+  });
+}
+
+// 关闭当前内容块
+function closeBlock(state: AnthropicStreamState, events: string[]) {
+  if (state.blockType) {
+    events.push(formatAnthropicEvent('content_block_stop', { index: state.blockIndex }));
+    state.blockType = null;
+  }
+}
+
+// 开启新的内容块
+function openBlock(state: AnthropicStreamState, events: string[], contentBlock: any) {
+  closeBlock(state, events);
+  state.blockIndex++;
+  state.blockType = contentBlock.type;
+  events.push(formatAnthropicEvent('content_block_start', { index: state.blockIndex, content_block: contentBlock }));
+}
+
+// 输出一段文本，需要时开启文本块
+function sendText(state: AnthropicStreamState, events: string[], text: string) {
+  if (!text) {
+    return;
+  }
+  if (state.blockType !== 'text') {
+    openBlock(state, events, { type: 'text', text: '' });
+  }
+  events.push(formatAnthropicEvent('content_block_delta', {
+    index: state.blockIndex,
+    delta: { type: 'text_delta', text },
+  }));
+}
+
+// 发送暂缓的文本
+function flushPendingText(state: AnthropicStreamState, events: string[]) {
+  sendText(state, events, state.pendingText);
+  state.pendingText = '';
+}
+
+// 将一个 Gemini 流式 chunk 转换为 Anthropic SSE 事件（只处理第一个候选）
+export function convertGeminiChunkToAnthropicEvents(chunk: any, state: AnthropicStreamState): string[] {
+  const events: string[] = [];
+  if (chunk?.usageMetadata) {
+    state.usageMetadata = chunk.usageMetadata;
+  }
+  if (state.stopSequence) {
+    return events;
+  }
+
+  const candidate = chunk?.candidates?.[0];
+  if (candidate?.finishReason) {
+    state.finishReason = candidate.finishReason;
+  }
+
+  for (const part of candidate?.content?.parts || []) {
+    const block = convertPartToBlock(part);
+    if (!block) {
+      continue;
+    }
+
+    if (block.type === 'text') {
+      const text = state.pendingText + block.text;
+      const match = findStopSequence(text, state.stopSequences);
+      if (match) {
+        state.pendingText = '';
+        sendText(state, events, text.slice(0, match.index));
+        state.stopSequence = match.sequence;
+        break;
+      }
+      // stop sequence 可能跨 chunk，末尾疑似开头的部分等下一个 chunk 再决定
+      const pendingLength = getPartialStopLength(text, state.stopSequences);
+      state.pendingText = text.slice(text.length - pendingLength);
+      sendText(state, events, text.slice(0, text.length - pendingLength));
+      continue;
+    }
+
+    flushPendingText(state, events);
+    if (block.type === 'thinking') {
+      if (state.blockType !== 'thinking') {
+        openBlock(state, events, { type: 'thinking', thinking: '', signature: '' });
+      }
+      events.push(formatAnthropicEvent('content_block_delta', {
+        index: state.blockIndex,
+        delta: { type: 'thinking_delta', thinking: block.thinking },
+      }));
+    } else {
+      // Gemini 一次返回完整的函数调用，参数作为一次 input_json_delta 发送
+      state.hasToolUse = true;
+      openBlock(state, events, { type: 'tool_use', id: block.id, name: block.name, input: {} });
+      events.push(formatAnthropicEvent('content_block_delta', {
+        index: state.blockIndex,
+        delta: { type: 'input_json_delta', partial_json: JSON.stringify(block.input) },
+      }));
+      closeBlock(state, events);
+    }
+  }
+
+  return events;
+}
+
+// 流结束事件：关闭内容块、message_delta、message_stop
+export function createAnthropicStreamEndEvents(state: AnthropicStreamState): string[] {
+  const events: string[] = [];
+  flushPendingText(state, events);
+  closeBlock(state, events);
+  events.push(formatAnthropicEvent('message_delta', {
+    delta: {
+      stop_reason: state.stopSequence ? 'stop_sequence' : STOP_REASONS[mapFinishReason(state.finishReason, state.hasToolUse)],
+      stop_sequence: state.stopSequence,
+    },
+    usage: { output_tokens: convertAnthropicUsage(state.usageMetadata).output_tokens },
+  }));
+  events.push(formatAnthropicEvent('message_stop', {}));
+  return events;
+}
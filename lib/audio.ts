@@ -0,0 +1,403 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { ApiError, MAX_TRANSCRIPTION_FILE_BYTES, SUPPORTED_AUDIO_MIME_TYPES } from './config';
+import { arrayBufferToBase64, base64ToUint8Array, guessMimeTypeFromUrl, normalizeMimeType, InlineMedia } from './media';
+
+export const DEFAULT_TRANSCRIPTION_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// 语音合成单次输入的最大字符数（与 OpenAI 一致）
+const MAX_SPEECH_INPUT_LENGTH = 4096;
+
+// Gemini TTS 输出 24kHz、16 位、单声道的 PCM
+const DEFAULT_PCM_SAMPLE_RATE = 24000;
+
+// mp3 编码码率（kbps）
+const MP3_BITRATE = 128;
+
+// lamejs 每次编码的采样数（一个 MPEG 帧）
+const MP3_FRAME_SAMPLES = 1152;
+
+export type TranscriptionFormat = 'json' | 'text' | 'srt' | 'vtt' | 'verbose_json';
+export type SpeechFormat = 'mp3' | 'wav' | 'pcm';
+
+const TRANSCRIPTION_FORMATS: TranscriptionFormat[] = ['json', 'text', 'srt', 'vtt', 'verbose_json'];
+const SPEECH_FORMATS: SpeechFormat[] = ['mp3', 'wav', 'pcm'];
+
+// OpenAI 音色对应的 Gemini 预置音色，其余音色名原样传给 Gemini（如 Kore、Puck）
+const VOICE_MAPPING: Record<string, string> = {
+  alloy: 'Zephyr',
+  ash: 'Charon',
+  ballad: 'Algieba',
+  coral: 'Aoede',
+  echo: 'Puck',
+  fable: 'Fenrir',
+  nova: 'Kore',
+  onyx: 'Orus',
+  sage: 'Leda',
+  shimmer: 'Despina',
+  verse: 'Enceladus',
+};
+
+// 带时间戳的输出格式要求 Gemini 按该结构返回分段
+const SEGMENTS_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    segments: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          start: { type: 'NUMBER' },
+          end: { type: 'NUMBER' },
+          text: { type: 'STRING' },
+        },
+        required: ['start', 'end', 'text'],
+      },
+    },
+  },
+  required: ['segments'],
+};
+
+// 解析后的语音转写请求
+export interface TranscriptionRequest {
+  audio: InlineMedia;
+  model: string;
+  language?: string;
+  prompt?: string;
+  responseFormat: TranscriptionFormat;
+  temperature?: number;
+}
+
+// 带时间戳的转写分段（单位：秒）
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// 读取表单中的可选文本字段
+function getFormText(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * 校验并解析 multipart/form-data 格式的转写请求
+ * 音频以内联数据发送给 Gemini，大小受部署平台的请求体上限限制
+ */
+export async function parseTranscriptionForm(formData: FormData): Promise<TranscriptionRequest> {
+  const file = formData.get('file');
+  if (!file || typeof file === 'string') {
+    throw new ApiError(400, "Missing 'file': expected an audio file upload", 'file');
+  }
+  if (file.size === 0) {
+    throw new ApiError(400, "Invalid 'file': the uploaded file is empty", 'file');
+  }
+  if (file.size > MAX_TRANSCRIPTION_FILE_BYTES) {
+    throw new ApiError(400, `Invalid 'file': audio exceeds the ${MAX_TRANSCRIPTION_FILE_BYTES / 1024 / 1024}MB limit`, 'file');
+  }
+
+  // 浏览器上传的 Content-Type 不可靠时按文件名推断
+  const fileName = (file as File).name || '';
+  const declaredType = file.type ? normalizeMimeType(file.type) : '';
+  const mimeType = SUPPORTED_AUDIO_MIME_TYPES.includes(declaredType)
+    ? declaredType
+    : guessMimeTypeFromUrl(fileName) || declaredType;
+  if (!SUPPORTED_AUDIO_MIME_TYPES.includes(mimeType)) {
+    throw new ApiError(400, `Unsupported audio type "${mimeType || fileName}". Supported types: ${SUPPORTED_AUDIO_MIME_TYPES.join(', ')}`, 'file');
+  }
+
+  const responseFormat = (getFormText(formData, 'response_format') || 'json') as TranscriptionFormat;
+  if (!TRANSCRIPTION_FORMATS.includes(responseFormat)) {
+    throw new ApiError(400, `Invalid 'response_format': expected one of ${TRANSCRIPTION_FORMATS.join(', ')}`, 'response_format');
+  }
+
+  const temperatureText = getFormText(formData, 'temperature');
+  const temperature = temperatureText === undefined ? undefined : Number(temperatureText);
+  if (temperature !== undefined && (!Number.isFinite(temperature) || temperature < 0 || temperature > 1)) {
+    throw new ApiError(400, "Invalid 'temperature': expected a number between 0 and 1", 'temperature');
+  }
+
+  // whisper-1 等 OpenAI 模型名使用默认的 Gemini 模型
+  const model = getFormText(formData, 'model');
+
+  return {
+    audio: { mimeType, data: arrayBufferToBase64(await file.arrayBuffer()) },
+    model: model?.startsWith('gemini-') ? model : DEFAULT_TRANSCRIPTION_MODEL,
+    language: getFormText(formData, 'language'),
+    prompt: getFormText(formData, 'prompt'),
+    responseFormat,
+    temperature,
+  };
+}
+
+// srt、vtt、verbose_json 需要时间戳
+function needsTimestamps(format: TranscriptionFormat): boolean {
+  return format === 'srt' || format === 'vtt' || format === 'verbose_json';
+}
+
+// 构造转写用的 Gemini 请求
+export function createTranscriptionRequest(request: TranscriptionRequest): any {
+  const instructions = ['Transcribe the speech in this audio verbatim.'];
+  if (request.language) {
+    instructions.push(`The audio is in the language with ISO-639-1 code "${request.language}", write the transcript in that language.`);
+  }
+  if (request.prompt) {
+    instructions.push(`Context and spelling hints from the user: ${request.prompt}`);
+  }
+  if (needsTimestamps(request.responseFormat)) {
+    instructions.push('Split the transcript into segments of about one sentence each, with start and end times in seconds from the beginning of the audio.');
+  } else {
+    instructions.push('Reply with the transcript only, without any explanation or formatting.');
+  }
+
+  const generationConfig: any = { temperature: request.temperature ?? 0 };
+  if (needsTimestamps(request.responseFormat)) {
+    generationConfig.responseMimeType = 'application/json';
+    generationConfig.responseSchema = SEGMENTS_SCHEMA;
+  }
+
+  return {
+    contents: [{
+      role: 'user',
+      parts: [
+        { inlineData: { mimeType: request.audio.mimeType, data: request.audio.data } },
+        { text: instructions.join(' ') },
+      ],
+    }],
+    generationConfig,
+  };
+}
+
+// 解析 Gemini 返回的分段，格式不符合预期时退化为不带时间戳的单个分段
+function parseSegments(output: string): TranscriptionSegment[] {
+  try {
+    const segments = JSON.parse(output).segments;
+    if (Array.isArray(segments)) {
+      return segments
+        .filter((segment: any) => typeof segment?.text === 'string')
+        .map((segment: any) => ({
+          start: Number(segment.start) || 0,
+          end: Number(segment.end) || 0,
+          text: segment.text.trim(),
+        }));
+    }
+  } catch (error) {
+    console.warn('[TRANSCRIPTIONS] Failed to parse segments:', (error as any)?.message);
+  }
+  return [{ start: 0, end: 0, text: output.trim() }];
+}
+
+// 秒数格式化为字幕时间戳：srt 使用逗号分隔毫秒，vtt 使用点
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length: number) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+/**
+ * 将 Gemini 的转写输出转换为客户端请求的格式
+ * @returns 响应体和 Content-Type
+ */
+export function formatTranscription(
+  output: string,
+  request: TranscriptionRequest,
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }
+): { body: string; contentType: string } {
+  if (!needsTimestamps(request.responseFormat)) {
+    const text = output.trim();
+    if (request.responseFormat === 'text') {
+      return { body: text, contentType: 'text/plain; charset=utf-8' };
+    }
+    return {
+      body: JSON.stringify({
+        text,
+        usage: {
+          type: 'tokens',
+          input_tokens: usage.prompt_tokens,
+          output_tokens: usage.completion_tokens,
+          total_tokens: usage.total_tokens,
+        },
+      }),
+      contentType: 'application/json',
+    };
+  }
+
+  const segments = parseSegments(output);
+  const text = segments.map((segment) => segment.text).join(' ');
+
+  if (request.responseFormat === 'verbose_json') {
+    return {
+      body: JSON.stringify({
+        task: 'transcribe',
+        language: request.language || 'unknown',
+        duration: segments.length > 0 ? segments[segments.length - 1].end : 0,
+        text,
+        segments: segments.map((segment, index) => ({ id: index, ...segment })),
+      }),
+      contentType: 'application/json',
+    };
+  }
+
+  if (request.responseFormat === 'srt') {
+    const body = segments
+      .map((segment, index) => `${index + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${segment.text}\n`)
+      .join('\n');
+    return { body, contentType: 'text/plain; charset=utf-8' };
+  }
+
+  const cues = segments
+    .map((segment) => `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n${segment.text}\n`)
+    .join('\n');
+  return { body: `WEBVTT\n\n${cues}`, contentType: 'text/vtt; charset=utf-8' };
+}
+
+// 解析后的语音合成请求
+export interface SpeechRequest {
+  model: string;
+  text: string;
+  voice: string;
+  responseFormat: SpeechFormat;
+}
+
+/**
+ * 校验并解析 OpenAI audio/speech 请求参数
+ * Gemini TTS 没有语速参数，speed 被忽略；instructions 作为朗读风格要求放在文本前
+ */
+export function parseSpeechRequest(body: any): SpeechRequest {
+  const { model, input, voice, response_format: responseFormat, instructions } = body || {};
+
+  if (typeof input !== 'string' || !input) {
+    throw new ApiError(400, "'input' must be a non-empty string", 'input');
+  }
+  if (input.length > MAX_SPEECH_INPUT_LENGTH) {
+    throw new ApiError(400, `Invalid 'input': at most ${MAX_SPEECH_INPUT_LENGTH} characters are supported`, 'input');
+  }
+  if (typeof voice !== 'string' || !voice) {
+    throw new ApiError(400, "'voice' must be a non-empty string", 'voice');
+  }
+
+  const format = responseFormat ?? 'mp3';
+  if (!SPEECH_FORMATS.includes(format)) {
+    throw new ApiError(400, `Unsupported 'response_format' "${format}", expected one of ${SPEECH_FORMATS.join(', ')}`, 'response_format');
+  }
+
+  if (instructions !== undefined && instructions !== null && typeof instructions !== 'string') {
+    throw new ApiError(400, "Invalid type for 'instructions': expected a string", 'instructions');
+  }
+
+  return {
+    // tts-1 等 OpenAI 模型名使用默认的 Gemini TTS 模型
+    model: typeof model === 'string' && model.startsWith('gemini-') ? model : DEFAULT_SPEECH_MODEL,
+    text: instructions ? `${instructions}: ${input}` : input,
+    voice: VOICE_MAPPING[voice] || voice,
+    responseFormat: format,
+  };
+}
+
+// 构造 Gemini TTS 请求
+export function createSpeechRequest(request: SpeechRequest): any {
+  return {
+    contents: [{ role: 'user', parts: [{ text: request.text }] }],
+    generationConfig: {
+      responseModalities: ['AUDIO'],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: request.voice } },
+      },
+    },
+  };
+}
+
+// 从 Gemini TTS 响应中取出 PCM 数据（audio/L16;codec=pcm;rate=24000）
+export function extractSpeechPcm(geminiResponse: any): { pcm: Uint8Array; sampleRate: number } {
+  const audioParts: any[] = (geminiResponse?.candidates?.[0]?.content?.parts || [])
+    .filter((part: any) => part.inlineData?.mimeType?.startsWith('audio/'));
+  if (audioParts.length === 0) {
+    throw new ApiError(500, 'Gemini did not return any audio');
+  }
+
+  const rateMatch = /rate=(\d+)/.exec(audioParts[0].inlineData.mimeType);
+  const chunks = audioParts.map((part) => base64ToUint8Array(part.inlineData.data));
+  const pcm = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    pcm.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return { pcm, sampleRate: rateMatch ? Number(rateMatch[1]) : DEFAULT_PCM_SAMPLE_RATE };
+}
+
+// 为 16 位单声道 PCM 加上 WAV 文件头
+function encodeWav(pcm: Uint8Array, sampleRate: number): Uint8Array {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt 块长度
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // 单声道
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // 每秒字节数
+  header.setUint16(32, 2, true); // 每个采样的字节数
+  header.setUint16(34, 16, true); // 位深
+  writeString(36, 'data');
+  header.setUint32(40, pcm.length, true);
+
+  const wav = new Uint8Array(44 + pcm.length);
+  wav.set(new Uint8Array(header.buffer), 0);
+  wav.set(pcm, 44);
+  return wav;
+}
+
+// 将 16 位单声道 PCM 编码为 mp3
+function encodeMp3(pcm: Uint8Array, sampleRate: number): Uint8Array {
+  // 复制一份以保证 Int16Array 按 2 字节对齐（小端序）
+  const samples = new Int16Array(pcm.slice(0, pcm.length - (pcm.length % 2)).buffer);
+  const encoder = new Mp3Encoder(1, sampleRate, MP3_BITRATE);
+
+  const frames: Uint8Array[] = [];
+  for (let i = 0; i < samples.length; i += MP3_FRAME_SAMPLES) {
+    const frame = encoder.encodeBuffer(samples.subarray(i, i + MP3_FRAME_SAMPLES));
+    if (frame.length > 0) {
+      frames.push(new Uint8Array(frame));
+    }
+  }
+  const last = encoder.flush();
+  if (last.length > 0) {
+    frames.push(new Uint8Array(last));
+  }
+
+  const mp3 = new Uint8Array(frames.reduce((sum, frame) => sum + frame.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    mp3.set(frame, offset);
+    offset += frame.length;
+  }
+  return mp3;
+}
+
+// 按请求的格式编码语音数据
+export function encodeSpeech(pcm: Uint8Array, sampleRate: number, format: SpeechFormat): { body: ArrayBuffer; contentType: string } {
+  // 复制为独立的 ArrayBuffer 作为响应体
+  const toArrayBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+  switch (format) {
+    case 'wav':
+      return { body: toArrayBuffer(encodeWav(pcm, sampleRate)), contentType: 'audio/wav' };
+    case 'pcm':
+      return { body: toArrayBuffer(pcm), contentType: 'audio/pcm' };
+    default:
+      return { body: toArrayBuffer(encodeMp3(pcm, sampleRate)), contentType: 'audio/mpeg' };
+  }
+}
@@ -0,0 +1,403 @@
+import { kv } from '@vercel/kv';
+import { supabase } from './supabaseClient';
+import { getAllAvailableGeminiKeys, updateKeyUsage, markKeyAsInvalid, recordKeyLatency, GeminiKey } from './key-manager';
+import { getKeyCooldowns, getCooldownField, startKeyCooldown } from './key-cooldown';
+import { classifyUpstreamError, createFinalError } from './upstream-errors';
+import { logApiCall, getUsageLogData } from './logging';
+import { convertOpenAItoGemini, createCompletionMeta } from './converter';
+import { generateChatCompletion } from './chat-completions';
+import { getRetryPolicyConfig, RetryPolicyConfig } from './settings-manager';
+import { ApiError } from './config';
+import { BatchRow, BatchRequestRow, BatchStatus, createBatchFile, getBatch, getBatchRequests, updateBatch } from './batches';
+
+// 防止多个定时任务实例同时处理批处理
+const PROCESSOR_LOCK_KEY = 'batch_processor_lock';
+const PROCESSOR_LOCK_TTL = 120;
+
+// 每个 key 同时处理的请求数，以及每个并发位每个分片分到的请求数
+const WORKERS_PER_KEY = 2;
+const REQUESTS_PER_WORKER = 3;
+const MAX_CHUNK_SIZE = 200;
+
+// 创建超过该时长仍处于 validating 的任务视为创建中断（如函数超时），记为失败
+const STALE_VALIDATING_MS = 10 * 60 * 1000;
+
+// 任务过期或取消时，未执行请求写入错误文件的原因
+const UNFINISHED_ERRORS: Record<string, { code: string; message: string }> = {
+  expired: { code: 'batch_expired', message: 'This request could not be executed before the completion window expired.' },
+  cancelled: { code: 'batch_cancelled', message: 'This request was not executed because the batch was cancelled.' },
+};
+
+// 获取处理锁，KV 不可用时（如本地开发）直接继续
+async function acquireLock(token: string): Promise<boolean> {
+  try {
+    const result = await kv.set(PROCESSOR_LOCK_KEY, token, { nx: true, ex: PROCESSOR_LOCK_TTL });
+    return result === 'OK';
+  } catch (error) {
+    console.warn('[BATCH] Failed to acquire processor lock, continuing without it:', error);
+    return true;
+  }
+}
+
+async function releaseLock(token: string) {
+  try {
+    if (await kv.get<string>(PROCESSOR_LOCK_KEY) === token) {
+      await kv.del(PROCESSOR_LOCK_KEY);
+    }
+  } catch (error) {
+    console.warn('[BATCH] Failed to release processor lock:', error);
+  }
+}
+
+// 使用指定 key 执行一个 Chat Completions 请求（批处理不支持流式，stream 参数被忽略）
+// 与 /v1/chat/completions 使用同一条调用路径，单次调用不超过重试策略的截止时间，也不超过本次处理的 deadline
+async function callChatCompletion(key: GeminiKey, body: any, policy: RetryPolicyConfig, deadline: number) {
+  const geminiRequest = await convertOpenAItoGemini(body);
+  const timeout = Math.max(Math.min(policy.deadline_ms, deadline - Date.now()), 1);
+  return generateChatCompletion(key.api_key, geminiRequest, body.model, createCompletionMeta(), AbortSignal.timeout(timeout));
+}
+
+async function saveRequestResult(request: BatchRequestRow, fields: Partial<BatchRequestRow>) {
+  const { error } = await supabase
+    .from('batch_requests')
+    .update({ attempts: request.attempts, ...fields })
+    .eq('id', request.id);
+
+  if (error) {
+    console.error(`[BATCH] Failed to save result of ${request.id}:`, error);
+  }
+}
+
+// 队列中第一个该 key 可以执行的请求（跳过 key 在其模型上冷却中的请求）
+function takeRequest(queue: BatchRequestRow[], key: GeminiKey, coolingFields: Set<string>): BatchRequestRow | null {
+  const index = queue.findIndex((request) => !coolingFields.has(getCooldownField(key.id, request.body.model)));
+  return index === -1 ? null : queue.splice(index, 1)[0];
+}
+
+/**
+ * 单个并发位：不断从队列中取请求用同一个 key 执行
+ * 可重试的错误会把请求放回队列交给其他 key；key 失效时停止，被限流时只跳过对应模型的请求
+ * @param coolingFields 冷却中的 key / 模型组合（getCooldownField），所有并发位共享
+ * @param policy 重试策略，单个请求最多尝试 max_attempts 次（仅统计可重试的错误）
+ * @param deadline 本次处理的截止时间，进行中的请求到点会被中断
+ * @returns 已完成（成功或最终失败）的请求数
+ */
+async function runKeyWorker(
+  batch: BatchRow,
+  key: GeminiKey,
+  queue: BatchRequestRow[],
+  benchedKeyIds: Set<string>,
+  coolingFields: Set<string>,
+  policy: RetryPolicyConfig,
+  deadline: number
+): Promise<number> {
+  let finished = 0;
+
+  while (!benchedKeyIds.has(key.id) && Date.now() < deadline) {
+    const request = takeRequest(queue, key, coolingFields);
+    if (!request) {
+      break;
+    }
+    const startTime = Date.now();
+    updateKeyUsage(key.id).catch(console.error);
+
+    try {
+      const completion = await callChatCompletion(key, request.body, policy, deadline);
+      recordKeyLatency(key.id, Date.now() - startTime).catch(console.error);
+      logApiCall({
+        request_id: batch.id,
+        access_key_id: batch.access_key_id,
+        gemini_key_id: key.id,
+        model_requested: request.body.model,
+        response_status_code: 200,
+        duration_ms: Date.now() - startTime,
+        is_stream: false,
+        ...getUsageLogData(completion.usage),
+      }).catch(console.error);
+
+      await saveRequestResult(request, {
+        status: 'completed',
+        response: { status_code: 200, request_id: completion.id, body: completion },
+      });
+      finished++;
+    } catch (error) {
+      // 本次处理的时间用完被中断，不计入尝试次数，留到下次处理
+      if (Date.now() >= deadline) {
+        queue.push(request);
+        break;
+      }
+
+      const errorInfo = classifyUpstreamError(error);
+      const errorMsg = errorInfo.message;
+      console.log(`[BATCH] ${request.id} failed with key ${key.id} (${errorInfo.category}): ${errorMsg}`);
+
+      logApiCall({
+        request_id: batch.id,
+        access_key_id: batch.access_key_id,
+        gemini_key_id: key.id,
+        model_requested: request.body.model,
+        response_status_code: errorInfo.statusCode,
+        duration_ms: Date.now() - startTime,
+        is_stream: false,
+        error_message: errorMsg,
+      }).catch(console.error);
+
+      // 请求本身的问题，换 key 也不会成功，直接记为失败
+      if (!errorInfo.retryable) {
+        const apiError = createFinalError(error, 1);
+        await saveRequestResult(request, {
+          status: 'failed',
+          response: { status_code: apiError.statusCode, request_id: null, body: apiError.toJSON() },
+        });
+        finished++;
+        continue;
+      }
+
+      recordKeyLatency(key.id, Date.now() - startTime, true).catch(console.error);
+      request.attempts++;
+      if (request.attempts >= policy.max_attempts) {
+        const apiError = new ApiError(503, `Request failed after ${request.attempts} attempts. Last error: ${errorMsg}`);
+        await saveRequestResult(request, {
+          status: 'failed',
+          response: { status_code: apiError.statusCode, request_id: null, body: apiError.toJSON() },
+        });
+        finished++;
+        continue;
+      }
+
+      // 放回队列交给其他 key；若本次没有 key 再处理，请求保持 pending 留到下次
+      await saveRequestResult(request, {});
+      queue.push(request);
+
+      if (errorInfo.invalidatesKey) {
+        benchedKeyIds.add(key.id);
+        markKeyAsInvalid(key.id, errorMsg).catch(console.error);
+      } else if (errorInfo.category === 'quota') {
+        coolingFields.add(getCooldownField(key.id, request.body.model));
+        await startKeyCooldown(key.id, request.body.model, errorInfo);
+      }
+    }
+  }
+
+  return finished;
+}
+
+// 统计批处理中指定状态的请求数
+async function countRequests(batchId: string, status: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('batch_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq('batch_id', batchId)
+    .eq('status', status);
+
+  if (error) {
+    throw error;
+  }
+  return count || 0;
+}
+
+async function refreshBatchCounts(batchId: string) {
+  await updateBatch(batchId, {
+    completed_count: await countRequests(batchId, 'completed'),
+    failed_count: await countRequests(batchId, 'failed'),
+  });
+}
+
+/**
+ * 收尾批处理任务：生成结果文件与错误文件并写入最终状态
+ * 过期或取消时，尚未执行的请求记为失败并写入错误文件
+ * 状态只在任务仍处于预期状态时更新，收尾前刚好被取消的任务改为按取消收尾
+ * @returns 是否完成收尾
+ */
+async function finalizeBatch(batch: BatchRow, finalStatus: 'completed' | 'expired' | 'cancelled'): Promise<boolean> {
+  const now = new Date().toISOString();
+  const currentStatus: BatchStatus = finalStatus === 'cancelled' ? 'cancelling' : 'finalizing';
+  if (finalStatus !== 'cancelled') {
+    const claimed = await updateBatch(batch.id, { status: 'finalizing', finalizing_at: now }, 'in_progress');
+    if (!claimed) {
+      const current = await getBatch(batch.id, batch.access_key_id);
+      console.log(`[BATCH] ${batch.id} changed to ${current?.status} before finalizing`);
+      return current?.status === 'cancelling' ? finalizeBatch(current, 'cancelled') : false;
+    }
+  }
+
+  if (finalStatus !== 'completed') {
+    const { error } = await supabase
+      .from('batch_requests')
+      .update({ status: 'failed', error: UNFINISHED_ERRORS[finalStatus] })
+      .eq('batch_id', batch.id)
+      .eq('status', 'pending');
+    if (error) {
+      throw error;
+    }
+  }
+
+  const results = await getBatchRequests(batch.id, ['completed', 'failed']);
+  const toLine = (row: BatchRequestRow) => JSON.stringify({
+    id: row.id,
+    custom_id: row.custom_id,
+    response: row.response ?? null,
+    error: row.error ?? null,
+  });
+  const outputLines = results.filter((row) => row.status === 'completed').map(toLine);
+  const errorLines = results.filter((row) => row.status === 'failed').map(toLine);
+
+  const outputFile = outputLines.length > 0
+    ? await createBatchFile(batch.access_key_id, `${batch.id}_output.jsonl`, 'batch_output', outputLines.join('\n') + '\n')
+    : null;
+  const errorFile = errorLines.length > 0
+    ? await createBatchFile(batch.access_key_id, `${batch.id}_error.jsonl`, 'batch_output', errorLines.join('\n') + '\n')
+    : null;
+
+  const finishedAt = new Date().toISOString();
+  const finished = await updateBatch(batch.id, {
+    status: finalStatus,
+    output_file_id: outputFile?.id ?? null,
+    error_file_id: errorFile?.id ?? null,
+    completed_count: outputLines.length,
+    failed_count: errorLines.length,
+    ...(finalStatus === 'completed' ? { completed_at: finishedAt } :
+      finalStatus === 'expired' ? { expired_at: finishedAt } : { cancelled_at: finishedAt }),
+  }, currentStatus);
+  if (!finished) {
+    console.error(`[BATCH] Failed to finalize ${batch.id} as ${finalStatus}`);
+    return false;
+  }
+
+  console.log(`[BATCH] ${batch.id} finalized as ${finalStatus}: ${outputLines.length} completed, ${errorLines.length} failed`);
+  return true;
+}
+
+// 把创建中断、停留在 validating 的任务记为失败
+async function failStaleValidatingBatches() {
+  const { data, error } = await supabase
+    .from('batches')
+    .update({ status: 'failed', failed_at: new Date().toISOString() })
+    .eq('status', 'validating')
+    .lt('created_at', new Date(Date.now() - STALE_VALIDATING_MS).toISOString())
+    .select('id');
+
+  if (error) {
+    console.error('[BATCH] Failed to fail stale validating batches:', error);
+    return;
+  }
+  for (const { id } of data || []) {
+    console.log(`[BATCH] ${id} was left in validating, marked as failed`);
+    await supabase.from('batch_requests').delete().eq('batch_id', id);
+  }
+}
+
+// 读取最早的一个指定状态的批处理任务，跳过 skippedIds 中的任务
+async function getOldestBatch(status: BatchStatus, skippedIds: Set<string> = new Set()): Promise<BatchRow | null> {
+  const { data, error } = await supabase
+    .from('batches')
+    .select('*')
+    .eq('status', status)
+    .order('created_at', { ascending: true })
+    .limit(skippedIds.size + 1);
+
+  if (error) {
+    throw error;
+  }
+  return (data as BatchRow[] | null)?.find((batch) => !skippedIds.has(batch.id)) || null;
+}
+
+/**
+ * 处理排队中的批处理任务，直到没有待处理请求或到达 deadline
+ * 任务按创建顺序处理，每个分片的请求分散到所有未冷却的 key 上并发执行
+ * @param deadline 停止分配新请求、中断进行中请求的时间戳（毫秒）
+ */
+export async function processBatches(deadline: number): Promise<{ processed: number; finalized: number; skipped?: boolean }> {
+  const lockToken = crypto.randomUUID();
+  if (!(await acquireLock(lockToken))) {
+    console.log('[BATCH] Another processor is running, skipping');
+    return { processed: 0, finalized: 0, skipped: true };
+  }
+
+  let processed = 0;
+  let finalized = 0;
+  const policy = await getRetryPolicyConfig();
+  // 本次无法推进或收尾失败的任务，跳过后继续处理后面的任务
+  const stalledBatchIds = new Set<string>();
+  const finalize = async (batch: BatchRow, finalStatus: 'completed' | 'expired' | 'cancelled') => {
+    if (await finalizeBatch(batch, finalStatus)) {
+      finalized++;
+    } else {
+      stalledBatchIds.add(batch.id);
+    }
+  };
+
+  try {
+    await failStaleValidatingBatches();
+
+    while (Date.now() < deadline) {
+      // 取消中的任务优先收尾
+      const cancelling = await getOldestBatch('cancelling', stalledBatchIds);
+      if (cancelling) {
+        await finalize(cancelling, 'cancelled');
+        continue;
+      }
+
+      const batch = await getOldestBatch('in_progress', stalledBatchIds);
+      if (!batch) {
+        break;
+      }
+
+      if (new Date(batch.expires_at).getTime() <= Date.now()) {
+        await finalize(batch, 'expired');
+        continue;
+      }
+
+      const keys = await getAllAvailableGeminiKeys();
+      const coolingFields = new Set(
+        (await getKeyCooldowns()).map((cooldown) => getCooldownField(cooldown.keyId, cooldown.model))
+      );
+
+      const { data: requests, error } = await supabase
+        .from('batch_requests')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .eq('status', 'pending')
+        .order('line_index', { ascending: true })
+        .limit(Math.min(keys.length * WORKERS_PER_KEY * REQUESTS_PER_WORKER, MAX_CHUNK_SIZE));
+      if (error) {
+        throw error;
+      }
+
+      if (!requests || requests.length === 0) {
+        await finalize(batch, 'completed');
+        continue;
+      }
+
+      // 只使用至少能执行其中一个请求的 key（key 冷却只针对单个模型）
+      const readyKeys = keys.filter((key) =>
+        requests.some((request) => !coolingFields.has(getCooldownField(key.id, request.body.model)))
+      );
+      if (readyKeys.length === 0) {
+        console.log(`[BATCH] ${batch.id}: all keys are cooling down for the pending models, skipping to the next batch`);
+        stalledBatchIds.add(batch.id);
+        continue;
+      }
+
+      console.log(`[BATCH] ${batch.id}: processing ${requests.length} requests with ${readyKeys.length} keys`);
+      const queue: BatchRequestRow[] = [...requests];
+      const benchedKeyIds = new Set<string>();
+      const workers = readyKeys.flatMap((key) =>
+        Array.from({ length: WORKERS_PER_KEY }, () => runKeyWorker(batch, key, queue, benchedKeyIds, coolingFields, policy, deadline))
+      );
+      const finished = (await Promise.all(workers)).reduce((sum, count) => sum + count, 0);
+
+      processed += finished;
+      await refreshBatchCounts(batch.id);
+
+      // 本轮没有任何进展（key 全部限流或失效），留到下次处理
+      if (finished === 0) {
+        stalledBatchIds.add(batch.id);
+      }
+    }
+  } finally {
+    await releaseLock(lockToken);
+  }
+
+  return { processed, finalized };
+}
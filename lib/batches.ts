@@ -0,0 +1,487 @@
+import { kv } from '@vercel/kv';
+import { supabase } from './supabaseClient';
+import { ApiError } from './config';
+import { getCronSecret } from './cron-auth';
+
+// 目前只支持 Chat Completions 批处理
+export const BATCH_ENDPOINT = '/v1/chat/completions';
+
+// 批处理任务的完成时限（OpenAI 目前只允许 24h）
+const BATCH_COMPLETION_WINDOW = '24h';
+const BATCH_COMPLETION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// 单个批处理文件的大小上限与请求数上限：文件随上传请求一起提交，受 Vercel Functions 4.5MB 请求体上限限制
+export const MAX_BATCH_FILE_BYTES = 4 * 1024 * 1024;
+const MAX_BATCH_REQUESTS = 50000;
+
+// 每次写入 batch_requests 的行数（避免单次请求体过大）
+const INSERT_PAGE_SIZE = 500;
+
+// 分页读取 batch_requests 时每页的行数（Supabase 默认最多返回 1000 行）
+const SELECT_PAGE_SIZE = 1000;
+
+// 批处理接口被调用时顺带触发处理，两次触发至少间隔的秒数
+const TRIGGER_THROTTLE_KEY = 'batch_processor_triggered';
+const TRIGGER_THROTTLE_SECONDS = 30;
+
+// 只等处理接口收到请求，处理本身在该函数内继续执行，不占用当前请求的时长
+const TRIGGER_WAIT_MS = 5000;
+
+// 文件用途：batch 为用户上传的输入，batch_output 为生成的结果文件
+export type BatchFilePurpose = 'batch' | 'batch_output';
+
+export type BatchStatus = 'validating' | 'in_progress' | 'finalizing' | 'completed' | 'failed' | 'expired' | 'cancelling' | 'cancelled';
+
+// 批处理中单个请求的状态
+export type BatchRequestStatus = 'pending' | 'completed' | 'failed';
+
+// batches 表中的一行
+export interface BatchRow {
+  id: string;
+  access_key_id: string;
+  input_file_id: string;
+  endpoint: string;
+  completion_window: string;
+  status: BatchStatus;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  metadata: Record<string, string> | null;
+  total_count: number;
+  completed_count: number;
+  failed_count: number;
+  created_at: string;
+  in_progress_at: string | null;
+  expires_at: string;
+  finalizing_at: string | null;
+  completed_at: string | null;
+  failed_at: string | null;
+  expired_at: string | null;
+  cancelling_at: string | null;
+  cancelled_at: string | null;
+}
+
+// batch_requests 表中的一行
+export interface BatchRequestRow {
+  id: string;
+  batch_id: string;
+  line_index: number;
+  custom_id: string;
+  body: any;
+  status: BatchRequestStatus;
+  attempts: number;
+  response: any;
+  error: any;
+}
+
+// 生成批处理相关的 ID（file-xxx、batch_xxx、batch_req_xxx）
+export function generateBatchId(prefix: string): string {
+  return `${prefix}${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+// 数据库时间转为 Unix 秒，空值保持 null
+function toUnixSeconds(timestamp: string | null | undefined): number | null {
+  return timestamp ? Math.floor(new Date(timestamp).getTime() / 1000) : null;
+}
+
+// 转换为 OpenAI File 对象
+export function toFileObject(row: any) {
+  return {
+    id: row.id,
+    object: 'file',
+    bytes: row.bytes,
+    created_at: toUnixSeconds(row.created_at),
+    filename: row.filename,
+    purpose: row.purpose,
+    status: 'processed',
+  };
+}
+
+// 转换为 OpenAI Batch 对象
+export function toBatchObject(row: BatchRow) {
+  return {
+    id: row.id,
+    object: 'batch',
+    endpoint: row.endpoint,
+    errors: null,
+    input_file_id: row.input_file_id,
+    completion_window: row.completion_window,
+    status: row.status,
+    output_file_id: row.output_file_id,
+    error_file_id: row.error_file_id,
+    created_at: toUnixSeconds(row.created_at),
+    in_progress_at: toUnixSeconds(row.in_progress_at),
+    expires_at: toUnixSeconds(row.expires_at),
+    finalizing_at: toUnixSeconds(row.finalizing_at),
+    completed_at: toUnixSeconds(row.completed_at),
+    failed_at: toUnixSeconds(row.failed_at),
+    expired_at: toUnixSeconds(row.expired_at),
+    cancelling_at: toUnixSeconds(row.cancelling_at),
+    cancelled_at: toUnixSeconds(row.cancelled_at),
+    request_counts: {
+      total: row.total_count,
+      completed: row.completed_count,
+      failed: row.failed_count,
+    },
+    metadata: row.metadata,
+  };
+}
+
+// 保存文件（批处理输入或生成的结果文件）
+export async function createBatchFile(accessKeyId: string, filename: string, purpose: BatchFilePurpose, content: string) {
+  const row = {
+    id: generateBatchId('file-'),
+    access_key_id: accessKeyId,
+    filename,
+    purpose,
+    bytes: new TextEncoder().encode(content).length,
+    content,
+  };
+
+  const { data, error } = await supabase
+    .from('batch_files')
+    .insert([row])
+    .select('id, filename, purpose, bytes, created_at')
+    .single();
+
+  if (error || !data) {
+    console.error('Failed to store batch file:', error);
+    throw new ApiError(500);
+  }
+  return toFileObject(data);
+}
+
+// 列出访问密钥的文件（不含内容）
+export async function listBatchFiles(accessKeyId: string, purpose?: string | null) {
+  let query = supabase
+    .from('batch_files')
+    .select('id, filename, purpose, bytes, created_at')
+    .eq('access_key_id', accessKeyId)
+    .order('created_at', { ascending: false });
+  if (purpose) {
+    query = query.eq('purpose', purpose);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Failed to list batch files:', error);
+    throw new ApiError(500);
+  }
+  return (data || []).map(toFileObject);
+}
+
+// 读取文件信息，includeContent 为 true 时同时返回内容
+export async function getBatchFile(id: string, accessKeyId: string, includeContent = false): Promise<any | null> {
+  const { data, error } = await supabase
+    .from('batch_files')
+    .select(includeContent ? 'id, filename, purpose, bytes, created_at, content' : 'id, filename, purpose, bytes, created_at')
+    .eq('id', id)
+    .eq('access_key_id', accessKeyId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+  return data;
+}
+
+// 删除文件
+export async function deleteBatchFile(id: string, accessKeyId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('batch_files')
+    .delete()
+    .eq('id', id)
+    .eq('access_key_id', accessKeyId)
+    .select('id');
+
+  return !error && !!data && data.length > 0;
+}
+
+/**
+ * 解析并校验批处理输入文件（JSONL，每行一个请求）
+ * 任意一行不合法时整个批处理被拒绝，错误信息中包含行号
+ */
+export function parseBatchInput(content: string): Array<{ custom_id: string; body: any }> {
+  const lines = content.split(/\r?\n/);
+  const requests: Array<{ custom_id: string; body: any }> = [];
+  const customIds = new Set<string>();
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    const lineNumber = index + 1;
+
+    let item: any;
+    try {
+      item = JSON.parse(line);
+    } catch (error) {
+      throw new ApiError(400, `Line ${lineNumber} of the input file is not valid JSON`, 'input_file_id');
+    }
+
+    if (!item || typeof item.custom_id !== 'string' || !item.custom_id) {
+      throw new ApiError(400, `Line ${lineNumber}: 'custom_id' must be a non-empty string`, 'input_file_id');
+    }
+    if (customIds.has(item.custom_id)) {
+      throw new ApiError(400, `Line ${lineNumber}: duplicate custom_id '${item.custom_id}'`, 'input_file_id');
+    }
+    if (item.method !== 'POST') {
+      throw new ApiError(400, `Line ${lineNumber}: 'method' must be 'POST'`, 'input_file_id');
+    }
+    if (item.url !== BATCH_ENDPOINT) {
+      throw new ApiError(400, `Line ${lineNumber}: 'url' must be '${BATCH_ENDPOINT}'`, 'input_file_id');
+    }
+    if (!item.body || typeof item.body !== 'object' || Array.isArray(item.body)) {
+      throw new ApiError(400, `Line ${lineNumber}: 'body' must be an object`, 'input_file_id');
+    }
+    if (typeof item.body.model !== 'string' || !item.body.model) {
+      throw new ApiError(400, `Line ${lineNumber}: 'body.model' is required`, 'input_file_id');
+    }
+    if (!Array.isArray(item.body.messages) || item.body.messages.length === 0) {
+      throw new ApiError(400, `Line ${lineNumber}: 'body.messages' must be a non-empty array`, 'input_file_id');
+    }
+
+    customIds.add(item.custom_id);
+    requests.push({ custom_id: item.custom_id, body: item.body });
+  });
+
+  if (requests.length === 0) {
+    throw new ApiError(400, 'The input file contains no requests', 'input_file_id');
+  }
+  if (requests.length > MAX_BATCH_REQUESTS) {
+    throw new ApiError(400, `The input file contains ${requests.length} requests, the maximum is ${MAX_BATCH_REQUESTS}`, 'input_file_id');
+  }
+  return requests;
+}
+
+/**
+ * 创建批处理任务：校验输入文件后把每个请求拆成一行写入 batch_requests
+ * 写入完成后状态置为 in_progress，由定时任务异步处理
+ */
+export async function createBatch(accessKeyId: string, body: any): Promise<BatchRow> {
+  const { input_file_id: inputFileId, endpoint, completion_window: completionWindow, metadata } = body || {};
+
+  if (typeof inputFileId !== 'string' || !inputFileId) {
+    throw new ApiError(400, "'input_file_id' is required", 'input_file_id');
+  }
+  if (endpoint !== BATCH_ENDPOINT) {
+    throw new ApiError(400, `Unsupported 'endpoint', only '${BATCH_ENDPOINT}' is supported`, 'endpoint');
+  }
+  if (completionWindow !== BATCH_COMPLETION_WINDOW) {
+    throw new ApiError(400, `Invalid 'completion_window', expected '${BATCH_COMPLETION_WINDOW}'`, 'completion_window');
+  }
+  if (metadata !== undefined && metadata !== null && (typeof metadata !== 'object' || Array.isArray(metadata))) {
+    throw new ApiError(400, "'metadata' must be an object", 'metadata');
+  }
+
+  const inputFile = await getBatchFile(inputFileId, accessKeyId, true);
+  if (!inputFile) {
+    throw new ApiError(404, `File with id '${inputFileId}' not found`, 'input_file_id');
+  }
+  if (inputFile.purpose !== 'batch') {
+    throw new ApiError(400, "The input file must be uploaded with purpose 'batch'", 'input_file_id');
+  }
+
+  const requests = parseBatchInput(inputFile.content);
+  const now = Date.now();
+  const batchId = generateBatchId('batch_');
+
+  const { error: insertError } = await supabase
+    .from('batches')
+    .insert([{
+      id: batchId,
+      access_key_id: accessKeyId,
+      input_file_id: inputFileId,
+      endpoint,
+      completion_window: completionWindow,
+      status: 'validating',
+      metadata: metadata || null,
+      total_count: requests.length,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + BATCH_COMPLETION_WINDOW_MS).toISOString(),
+    }]);
+  if (insertError) {
+    console.error('Failed to create batch:', insertError);
+    throw new ApiError(500);
+  }
+
+  for (let start = 0; start < requests.length; start += INSERT_PAGE_SIZE) {
+    const rows = requests.slice(start, start + INSERT_PAGE_SIZE).map((request, offset) => ({
+      id: generateBatchId('batch_req_'),
+      batch_id: batchId,
+      line_index: start + offset,
+      custom_id: request.custom_id,
+      body: request.body,
+    }));
+    const { error } = await supabase.from('batch_requests').insert(rows);
+    if (error) {
+      // 写入中途失败时任务直接记为失败，并清理已写入的请求
+      console.error('Failed to store batch requests:', error);
+      await updateBatch(batchId, { status: 'failed', failed_at: new Date().toISOString() }, 'validating');
+      await supabase.from('batch_requests').delete().eq('batch_id', batchId);
+      throw new ApiError(500);
+    }
+  }
+
+  // 写入期间任务可能已被取消，此时保留取消状态
+  const batch = await updateBatch(batchId, { status: 'in_progress', in_progress_at: new Date().toISOString() }, 'validating')
+    || await getBatch(batchId, accessKeyId);
+  if (!batch) {
+    throw new ApiError(500);
+  }
+  return batch;
+}
+
+// 读取批处理任务（只能读取同一访问密钥创建的任务）
+export async function getBatch(id: string, accessKeyId: string): Promise<BatchRow | null> {
+  const { data, error } = await supabase
+    .from('batches')
+    .select('*')
+    .eq('id', id)
+    .eq('access_key_id', accessKeyId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+  return data;
+}
+
+// 按创建时间倒序分页列出批处理任务，after 为上一页最后一个任务的 ID
+export async function listBatches(accessKeyId: string, after: string | null, limit: number) {
+  let query = supabase
+    .from('batches')
+    .select('*')
+    .eq('access_key_id', accessKeyId)
+    .order('created_at', { ascending: false })
+    .limit(limit + 1);
+
+  if (after) {
+    const afterBatch = await getBatch(after, accessKeyId);
+    if (!afterBatch) {
+      throw new ApiError(400, `Batch with id '${after}' not found`, 'after');
+    }
+    query = query.lt('created_at', afterBatch.created_at);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Failed to list batches:', error);
+    throw new ApiError(500);
+  }
+
+  const rows: BatchRow[] = data || [];
+  const page = rows.slice(0, limit).map(toBatchObject);
+  return {
+    object: 'list',
+    data: page,
+    first_id: page[0]?.id ?? null,
+    last_id: page[page.length - 1]?.id ?? null,
+    has_more: rows.length > limit,
+  };
+}
+
+/**
+ * 更新批处理任务并返回更新后的行
+ * @param expectedStatus 只在任务当前处于该状态时更新（避免覆盖并发的取消），不匹配时返回 null
+ */
+export async function updateBatch(id: string, fields: Partial<BatchRow>, expectedStatus?: BatchStatus): Promise<BatchRow | null> {
+  let query = supabase
+    .from('batches')
+    .update(fields)
+    .eq('id', id);
+  if (expectedStatus) {
+    query = query.eq('status', expectedStatus);
+  }
+
+  const { data, error } = await query.select('*');
+  if (error) {
+    console.error('Failed to update batch:', error);
+    return null;
+  }
+  return data?.[0] || null;
+}
+
+/**
+ * 取消批处理任务：状态置为 cancelling，由定时任务在当前分片处理完后收尾为 cancelled
+ * 已结束的任务不能取消
+ */
+export async function cancelBatch(id: string, accessKeyId: string): Promise<BatchRow> {
+  const batch = await getBatch(id, accessKeyId);
+  if (!batch) {
+    throw new ApiError(404, `Batch with id '${id}' not found`);
+  }
+  if (batch.status === 'cancelling' || batch.status === 'cancelled') {
+    return batch;
+  }
+  if (batch.status !== 'validating' && batch.status !== 'in_progress') {
+    throw new ApiError(400, `Cannot cancel a batch with status '${batch.status}'`);
+  }
+
+  const { data, error } = await supabase
+    .from('batches')
+    .update({ status: 'cancelling', cancelling_at: new Date().toISOString() })
+    .eq('id', id)
+    .in('status', ['validating', 'in_progress'])
+    .select('*');
+
+  if (error) {
+    console.error('Failed to cancel batch:', error);
+    throw new ApiError(500);
+  }
+  // 并发情况下任务可能刚好被收尾，返回最新状态
+  return data?.[0] || (await getBatch(id, accessKeyId))!;
+}
+
+// 分页读取批处理中指定状态的全部请求（按输入文件中的顺序）
+export async function getBatchRequests(batchId: string, statuses: BatchRequestStatus[]): Promise<BatchRequestRow[]> {
+  const rows: BatchRequestRow[] = [];
+  for (let start = 0; ; start += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('batch_requests')
+      .select('*')
+      .eq('batch_id', batchId)
+      .in('status', statuses)
+      .order('line_index', { ascending: true })
+      .range(start, start + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * 顺带触发一次批处理：调用 /api/cron/process-batches（Node 函数，独立计时）
+ * Hobby 计划的 Vercel Cron 每天只能执行一次，批处理主要靠查询 / 创建任务时触发推进
+ * @param requestUrl 当前请求的 URL，用于拼出同一部署下的处理接口地址
+ */
+export async function triggerBatchProcessing(requestUrl: string): Promise<void> {
+  const secret = getCronSecret();
+  if (!secret) {
+    return;
+  }
+
+  try {
+    if (await kv.set(TRIGGER_THROTTLE_KEY, Date.now(), { nx: true, ex: TRIGGER_THROTTLE_SECONDS }) !== 'OK') {
+      return;
+    }
+  } catch (error) {
+    console.warn('[BATCH] Failed to throttle batch processing trigger:', error);
+  }
+
+  try {
+    await fetch(new URL('/api/cron/process-batches', requestUrl), {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${secret}` },
+      signal: AbortSignal.timeout(TRIGGER_WAIT_MS),
+    });
+  } catch (error) {
+    if ((error as Error)?.name !== 'TimeoutError') {
+      console.error('[BATCH] Failed to trigger batch processing:', error);
+    }
+  }
+}
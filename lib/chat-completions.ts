@@ -0,0 +1,26 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { SAFETY_SETTINGS } from './config';
+import { createCompletionResponse, CompletionMeta } from './converter';
+
+/**
+ * 使用指定 key 执行一次非流式 Chat Completions 调用，返回 OpenAI 格式的响应
+ * /v1/chat/completions 与批处理共用，保证两者的安全设置、拦截错误和 finish_reason 一致
+ * @param geminiRequest convertOpenAItoGemini 转换后的请求
+ * @param signal 中止上游请求，用于重试截止时间
+ */
+export async function generateChatCompletion(
+  apiKey: string,
+  geminiRequest: any,
+  model: string,
+  meta: CompletionMeta,
+  signal?: AbortSignal
+) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const geminiModel = genAI.getGenerativeModel({
+    model,
+    safetySettings: SAFETY_SETTINGS
+  });
+
+  const result = await geminiModel.generateContent(geminiRequest, { signal });
+  return createCompletionResponse(result.response, model, meta);
+}
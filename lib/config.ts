@@ -1,11 +1,71 @@
-// 用于 Gemini 1.0和2.0 Pro 等模型
-export const GEMINI_1_SAFETY_SETTINGS = [
-  { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" },
-  { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_NONE" },
-  { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_NONE" },
-  { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_NONE" },
+import { HarmCategory, HarmBlockThreshold, SafetySetting } from '@google/generative-ai';
+
+// 所有生成接口共用的安全设置（全部关闭拦截）
+export const SAFETY_SETTINGS: SafetySetting[] = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
 ];
 
+// OpenAI 兼容接口的 CORS 响应头
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// 多模态内容限制（Gemini 单次请求 inlineData 上限约 20MB）
+export const MAX_INLINE_DATA_BYTES = 20 * 1024 * 1024;
+
+// batchEmbedContents 单次请求最多包含的输入数量
+export const MAX_EMBEDDING_BATCH_SIZE = 100;
+
+// 语音转写上传的音频大小上限：Vercel Functions 的请求体上限为 4.5MB，需为 multipart 的其他字段留出余量
+export const MAX_TRANSCRIPTION_FILE_BYTES = 4 * 1024 * 1024;
+
+// 远程图片下载超时时间（毫秒）
+export const REMOTE_MEDIA_FETCH_TIMEOUT = 15000;
+
+// 远程图片下载最多跟随的重定向次数
+export const REMOTE_MEDIA_MAX_REDIRECTS = 3;
+
+// Gemini 支持的图片 MIME 类型
+export const SUPPORTED_IMAGE_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+];
+
+// Gemini 支持的音频 MIME 类型（用于 input_audio 内容块和语音转写）
+export const SUPPORTED_AUDIO_MIME_TYPES = [
+  'audio/wav',
+  'audio/mp3',
+  'audio/aiff',
+  'audio/aac',
+  'audio/ogg',
+  'audio/flac',
+  'audio/mp4',
+  'audio/webm',
+];
+
+// Gemini 支持的文档 MIME 类型（用于 file 类型的内容块）
+export const SUPPORTED_FILE_MIME_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/html',
+  'text/css',
+  'text/csv',
+  'text/markdown',
+  'text/xml',
+  'application/json',
+];
+
+// 响应中的 system_fingerprint（标识本代理的后端配置）
+export const SYSTEM_FINGERPRINT = 'fp_baojimi';
+
 // 错误响应文案配置
 export const ERROR_MESSAGES = {
   401: {
@@ -38,12 +98,18 @@ export const ERROR_MESSAGES = {
 export class ApiError extends Error {
   public statusCode: number;
   public type: string;
+  public param: string | null;
+  public code: string;
+  // 需要随错误响应一起返回的响应头（如 Retry-After）
+  public headers: Record<string, string> = {};
 
-  constructor(statusCode: number, message?: string) {
+  constructor(statusCode: number, message?: string, param?: string, code?: string) {
     const errorConfig = ERROR_MESSAGES[statusCode as keyof typeof ERROR_MESSAGES];
     super(message || errorConfig?.message || 'Unknown error');
     this.statusCode = statusCode;
     this.type = errorConfig?.type || 'unknown_error';
+    this.param = param || null;
+    this.code = code || statusCode.toString();
     this.name = 'ApiError';
   }
 
@@ -52,7 +118,8 @@ export class ApiError extends Error {
       error: {
         message: this.message,
         type: this.type,
-        code: this.statusCode.toString()
+        param: this.param,
+        code: this.code
       }
     };
   }
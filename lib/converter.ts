@@ -1,95 +1,945 @@
-import { getDisguiseEnabled, generateDisguiseString } from './settings-manager';
+import { getDisguiseEnabled, generateDisguiseString, shouldUseSystemInstruction } from './settings-manager';
+import { ApiError, SYSTEM_FINGERPRINT, MAX_INLINE_DATA_BYTES, SUPPORTED_IMAGE_MIME_TYPES, SUPPORTED_AUDIO_MIME_TYPES, SUPPORTED_FILE_MIME_TYPES } from './config';
+import { parseDataUrl, getBase64ByteLength, fetchRemoteMedia, isGeminiFileUri, normalizeMimeType, InlineMedia } from './media';
+import { convertJsonSchemaToGemini } from './schema-converter';
 
-// OpenAI 到 Gemini 的请求转换
-export async function convertOpenAItoGemini(openaiRequest: any) {
-  const { messages, model, stream = false, max_tokens, temperature } = openaiRequest;
-  
+// 单次请求内的多模态转换上下文，用于统计内联数据总大小
+interface ContentConversionContext {
+  inlineBytes: number;
+}
+
+// 校验并登记一段内联数据
+function addInlineData(media: InlineMedia, allowedMimeTypes: string[], context: ContentConversionContext, path: string) {
+  if (!allowedMimeTypes.includes(media.mimeType)) {
+    throw new ApiError(400, `Unsupported media type "${media.mimeType}" at ${path}. Supported types: ${allowedMimeTypes.join(', ')}`);
+  }
+
+  if (!media.data) {
+    throw new ApiError(400, `Empty media data at ${path}`);
+  }
+
+  context.inlineBytes += getBase64ByteLength(media.data);
+  if (context.inlineBytes > MAX_INLINE_DATA_BYTES) {
+    throw new ApiError(400, `Inline media exceeds the ${MAX_INLINE_DATA_BYTES / 1024 / 1024}MB request limit at ${path}`);
+  }
+
+  return {
+    inlineData: {
+      mimeType: media.mimeType,
+      data: media.data
+    }
+  };
+}
+
+// 将一个 URL（data URL / Gemini 文件 / 远程地址）转换为 Gemini part
+async function convertMediaUrl(url: string, allowedMimeTypes: string[], context: ContentConversionContext, path: string, mimeTypeHint?: string) {
+  if (typeof url !== 'string' || !url) {
+    throw new ApiError(400, `Missing url at ${path}`);
+  }
+
+  if (url.startsWith('data:')) {
+    const media = parseDataUrl(url);
+    if (!media) {
+      throw new ApiError(400, `Invalid data URL at ${path}, expected data:<mime>;base64,<data>`);
+    }
+    return addInlineData(media, allowedMimeTypes, context, path);
+  }
+
+  // Gemini 可直接访问的文件用 fileData 引用，避免下载
+  if (isGeminiFileUri(url)) {
+    return {
+      fileData: {
+        mimeType: mimeTypeHint,
+        fileUri: url
+      }
+    };
+  }
+
+  if (url.startsWith('http://') || url.startsWith('https://')) {
+    const media = await fetchRemoteMedia(url, MAX_INLINE_DATA_BYTES - context.inlineBytes);
+    return addInlineData(media, allowedMimeTypes, context, path);
+  }
+
+  throw new ApiError(400, `Unsupported url scheme at ${path}, expected a data URL or http(s) URL`);
+}
+
+// 将 OpenAI 消息内容（字符串或内容块数组）转换为 Gemini parts
+async function convertContentToParts(content: any, context: ContentConversionContext, path: string): Promise<any[]> {
+  if (content === null || content === undefined) {
+    return [];
+  }
+
+  if (typeof content === 'string') {
+    return content ? [{ text: content }] : [];
+  }
+
+  if (!Array.isArray(content)) {
+    throw new ApiError(400, `Invalid content at ${path}, expected a string or an array of content parts`);
+  }
+
+  const parts: any[] = [];
+  for (let i = 0; i < content.length; i++) {
+    const part = content[i];
+    const partPath = `${path}[${i}]`;
+
+    if (typeof part === 'string') {
+      parts.push({ text: part });
+      continue;
+    }
+
+    switch (part?.type) {
+      case 'text':
+        if (typeof part.text !== 'string') {
+          throw new ApiError(400, `Missing text at ${partPath}`);
+        }
+        if (part.text) {
+          parts.push({ text: part.text });
+        }
+        break;
+      case 'image_url': {
+        const imageUrl = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+        parts.push(await convertMediaUrl(imageUrl, SUPPORTED_IMAGE_MIME_TYPES, context, `${partPath}.image_url`, part.image_url?.mime_type));
+        break;
+      }
+      case 'input_audio': {
+        // format 为 wav、mp3 等扩展名，data 为不带前缀的 base64
+        const { data, format } = part.input_audio || {};
+        if (typeof data !== 'string' || typeof format !== 'string') {
+          throw new ApiError(400, `Missing input_audio.data or input_audio.format at ${partPath}`);
+        }
+        parts.push(addInlineData({ mimeType: normalizeMimeType(`audio/${format}`), data }, SUPPORTED_AUDIO_MIME_TYPES, context, `${partPath}.input_audio`));
+        break;
+      }
+      case 'file': {
+        const fileData = part.file?.file_data;
+        parts.push(await convertMediaUrl(fileData, [...SUPPORTED_IMAGE_MIME_TYPES, ...SUPPORTED_FILE_MIME_TYPES], context, `${partPath}.file`));
+        break;
+      }
+      default:
+        throw new ApiError(400, `Unsupported content part type "${part?.type}" at ${partPath}`);
+    }
+  }
+
+  return parts;
+}
+
+// 将单段用户内容转换为 Gemini parts（供不经过消息转换的接口使用，如 moderations）
+export async function convertUserContentToParts(content: any, path: string): Promise<any[]> {
+  return convertContentToParts(content, { inlineBytes: 0 }, path);
+}
+
+// 在消息 parts 末尾追加文本（追加到最后一个文本块，没有则新建）
+function appendTextToParts(parts: any[], text: string) {
+  for (let i = parts.length - 1; i >= 0; i--) {
+    if (typeof parts[i].text === 'string') {
+      parts[i] = { text: `${parts[i].text} ${text}` };
+      return;
+    }
+  }
+  parts.push({ text });
+}
+
+// 提取内容中的纯文本（用于只接受文本的角色，如 system）
+function getTextFromParts(parts: any[]): string {
+  return parts.filter(part => typeof part.text === 'string').map(part => part.text).join('\n');
+}
+
+// 将 OpenAI tools 转换为 Gemini functionDeclarations
+function convertTools(tools: any): any[] | undefined {
+  if (tools === undefined || tools === null) {
+    return undefined;
+  }
+  if (!Array.isArray(tools)) {
+    throw new ApiError(400, 'tools must be an array', 'tools');
+  }
+  if (tools.length === 0) {
+    return undefined;
+  }
+
+  const functionDeclarations = tools.map((tool: any, index: number) => {
+    if (tool?.type !== 'function' || !tool.function) {
+      throw new ApiError(400, `Unsupported tool type "${tool?.type}" at tools[${index}], only "function" is supported`, `tools[${index}].type`);
+    }
+
+    const { name, description, parameters } = tool.function;
+    if (typeof name !== 'string' || !name) {
+      throw new ApiError(400, `Missing function name at tools[${index}].function.name`, `tools[${index}].function.name`);
+    }
+
+    const declaration: any = { name };
+    if (description) {
+      declaration.description = description;
+    }
+    // 没有参数的函数不能传空 object schema，Gemini 会拒绝
+    if (parameters && parameters.properties && Object.keys(parameters.properties).length > 0) {
+      declaration.parameters = convertJsonSchemaToGemini(parameters, `tools[${index}].function.parameters`);
+    }
+    return declaration;
+  });
+
+  return [{ functionDeclarations }];
+}
+
+// 将 OpenAI tool_choice 转换为 Gemini toolConfig
+function convertToolChoice(toolChoice: any): any | undefined {
+  if (toolChoice === undefined || toolChoice === null) {
+    return undefined;
+  }
+
+  if (toolChoice === 'auto') {
+    return { functionCallingConfig: { mode: 'AUTO' } };
+  }
+  if (toolChoice === 'none') {
+    return { functionCallingConfig: { mode: 'NONE' } };
+  }
+  if (toolChoice === 'required') {
+    return { functionCallingConfig: { mode: 'ANY' } };
+  }
+  if (toolChoice?.type === 'function' && toolChoice.function?.name) {
+    return {
+      functionCallingConfig: {
+        mode: 'ANY',
+        allowedFunctionNames: [toolChoice.function.name]
+      }
+    };
+  }
+
+  throw new ApiError(400, 'Invalid tool_choice, expected "auto", "none", "required" or {"type": "function", "function": {"name": ...}}', 'tool_choice');
+}
+
+// 校验数值参数，未传时返回 undefined，显式传 0 也会保留
+function validateNumberParam(value: any, name: string, min: number, max: number, integer = false): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    throw new ApiError(400, `Invalid type for '${name}': expected ${integer ? 'an integer' : 'a number'}`, name);
+  }
+  if (value < min || value > max) {
+    throw new ApiError(400, `Invalid '${name}': ${value} is out of range, expected a value between ${min} and ${max}`, name);
+  }
+  return value;
+}
+
+// 将 OpenAI stop 参数（字符串或数组）转换为 Gemini stopSequences
+function convertStopSequences(stop: any): string[] | undefined {
+  if (stop === undefined || stop === null) {
+    return undefined;
+  }
+
+  const stopSequences = typeof stop === 'string' ? [stop] : stop;
+  if (!Array.isArray(stopSequences) || stopSequences.some((item: any) => typeof item !== 'string')) {
+    throw new ApiError(400, "Invalid type for 'stop': expected a string or an array of strings", 'stop');
+  }
+  if (stopSequences.length > 5) {
+    throw new ApiError(400, `Invalid 'stop': at most 5 stop sequences are supported, got ${stopSequences.length}`, 'stop');
+  }
+  return stopSequences.length > 0 ? stopSequences : undefined;
+}
+
+// 将 OpenAI 采样参数转换为 Gemini generationConfig
+function convertSamplingParams(openaiRequest: any): any {
+  const maxCompletionTokens = validateNumberParam(openaiRequest.max_completion_tokens, 'max_completion_tokens', 1, Number.MAX_SAFE_INTEGER, true);
+  const maxTokens = validateNumberParam(openaiRequest.max_tokens, 'max_tokens', 1, Number.MAX_SAFE_INTEGER, true);
+  const temperature = validateNumberParam(openaiRequest.temperature, 'temperature', 0, 2);
+
+  const generationConfig: any = {
+    // max_completion_tokens 是 max_tokens 的新名字，两者都传时以它为准
+    maxOutputTokens: maxCompletionTokens ?? maxTokens ?? 2048,
+    temperature: temperature ?? 0.7,
+  };
+
+  const optionalParams: Array<[string, number | undefined]> = [
+    ['topP', validateNumberParam(openaiRequest.top_p, 'top_p', 0, 1)],
+    ['topK', validateNumberParam(openaiRequest.top_k, 'top_k', 1, Number.MAX_SAFE_INTEGER, true)],
+    ['presencePenalty', validateNumberParam(openaiRequest.presence_penalty, 'presence_penalty', -2, 2)],
+    ['frequencyPenalty', validateNumberParam(openaiRequest.frequency_penalty, 'frequency_penalty', -2, 2)],
+    ['seed', validateNumberParam(openaiRequest.seed, 'seed', Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, true)],
+    ['candidateCount', validateNumberParam(openaiRequest.n, 'n', 1, 8, true)],
+  ];
+  for (const [key, value] of optionalParams) {
+    if (value !== undefined) {
+      generationConfig[key] = value;
+    }
+  }
+
+  const stopSequences = convertStopSequences(openaiRequest.stop);
+  if (stopSequences) {
+    generationConfig.stopSequences = stopSequences;
+  }
+
+  return generationConfig;
+}
+
+// reasoning_effort 对应的 Gemini 思考预算（token 数）
+const REASONING_EFFORT_BUDGETS: Record<string, number> = {
+  none: 0,
+  minimal: 128,
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+
+// 将 reasoning_effort / thinking_budget 转换为 Gemini thinkingConfig，两个参数都没传时不设置
+function convertThinkingConfig(openaiRequest: any): any | undefined {
+  const { reasoning_effort: reasoningEffort } = openaiRequest;
+  // thinking_budget 为扩展参数：-1 表示由模型自行决定，0 表示关闭思考
+  let thinkingBudget = validateNumberParam(openaiRequest.thinking_budget, 'thinking_budget', -1, Number.MAX_SAFE_INTEGER, true);
+
+  if (reasoningEffort !== undefined && reasoningEffort !== null) {
+    if (!Object.prototype.hasOwnProperty.call(REASONING_EFFORT_BUDGETS, reasoningEffort)) {
+      throw new ApiError(400, `Invalid 'reasoning_effort': expected one of ${Object.keys(REASONING_EFFORT_BUDGETS).join(', ')}`, 'reasoning_effort');
+    }
+    // 两者都传时以更精确的 thinking_budget 为准
+    thinkingBudget = thinkingBudget ?? REASONING_EFFORT_BUDGETS[reasoningEffort];
+  }
+
+  if (thinkingBudget === undefined) {
+    return undefined;
+  }
+
+  return {
+    thinkingConfig: {
+      thinkingBudget,
+      // 开启思考时同时返回思考摘要，用于 reasoning_content
+      includeThoughts: thinkingBudget !== 0
+    }
+  };
+}
+
+// 支持图片输出的 Gemini 模型（如 gemini-2.5-flash-image、gemini-2.0-flash-preview-image-generation）
+const IMAGE_OUTPUT_MODEL_PATTERN = /^gemini-.*-image(-|$)/;
+
+// OpenAI modalities 对应的 Gemini responseModalities
+const RESPONSE_MODALITIES: Record<string, string> = {
+  text: 'TEXT',
+  image: 'IMAGE',
+};
+
+// 将 modalities 转换为 Gemini responseModalities，图片输出模型未指定时默认同时输出文本和图片
+function convertResponseModalities(openaiRequest: any): any | undefined {
+  const { modalities, model } = openaiRequest;
+
+  if (modalities === undefined || modalities === null) {
+    return typeof model === 'string' && IMAGE_OUTPUT_MODEL_PATTERN.test(model)
+      ? { responseModalities: ['TEXT', 'IMAGE'] }
+      : undefined;
+  }
+
+  if (!Array.isArray(modalities) || modalities.length === 0) {
+    throw new ApiError(400, "Invalid 'modalities': expected a non-empty array", 'modalities');
+  }
+  const unsupported = modalities.find((modality: any) => !Object.prototype.hasOwnProperty.call(RESPONSE_MODALITIES, modality));
+  if (unsupported !== undefined) {
+    throw new ApiError(400, `Unsupported modality "${unsupported}", expected one of ${Object.keys(RESPONSE_MODALITIES).join(', ')}`, 'modalities');
+  }
+
+  return { responseModalities: modalities.map((modality: string) => RESPONSE_MODALITIES[modality]) };
+}
+
+// 将 OpenAI response_format 转换为 Gemini generationConfig 中的结构化输出配置
+function convertResponseFormat(responseFormat: any): any | undefined {
+  if (responseFormat === undefined || responseFormat === null || responseFormat.type === 'text') {
+    return undefined;
+  }
+
+  if (responseFormat.type === 'json_object') {
+    return { responseMimeType: 'application/json' };
+  }
+
+  if (responseFormat.type === 'json_schema') {
+    const schema = responseFormat.json_schema?.schema;
+    if (!schema) {
+      throw new ApiError(400, 'Missing response_format.json_schema.schema', 'response_format.json_schema.schema');
+    }
+    return {
+      responseMimeType: 'application/json',
+      responseSchema: convertJsonSchemaToGemini(schema, 'response_format.json_schema.schema')
+    };
+  }
+
+  throw new ApiError(400, `Unsupported response_format type "${responseFormat.type}", expected "text", "json_object" or "json_schema"`, 'response_format.type');
+}
+
+// 将 assistant 消息中的 tool_calls 转换为 Gemini functionCall parts
+function convertToolCallsToParts(toolCalls: any, toolCallNames: Map<string, string>, path: string): any[] {
+  if (!Array.isArray(toolCalls)) {
+    throw new ApiError(400, `${path} must be an array`);
+  }
+
+  return toolCalls.map((toolCall: any, index: number) => {
+    const name = toolCall?.function?.name;
+    if (!name) {
+      throw new ApiError(400, `Missing function name at ${path}[${index}].function.name`);
+    }
+
+    let args: any = {};
+    const rawArguments = toolCall.function.arguments;
+    if (typeof rawArguments === 'string' && rawArguments.trim()) {
+      try {
+        args = JSON.parse(rawArguments);
+      } catch (error) {
+        throw new ApiError(400, `Invalid JSON in ${path}[${index}].function.arguments`);
+      }
+    } else if (rawArguments && typeof rawArguments === 'object') {
+      args = rawArguments;
+    }
+
+    if (toolCall.id) {
+      toolCallNames.set(toolCall.id, name);
+    }
+
+    return {
+      functionCall: { name, args }
+    };
+  });
+}
+
+// 将 tool 消息转换为 Gemini functionResponse part
+function convertToolMessageToPart(msg: any, parts: any[], toolCallNames: Map<string, string>, path: string) {
+  const name = toolCallNames.get(msg.tool_call_id) || msg.name;
+  if (!name) {
+    throw new ApiError(400, `Unknown tool_call_id "${msg.tool_call_id}" at ${path}, no matching assistant tool_calls found`);
+  }
+
+  const text = getTextFromParts(parts);
+  let response: any;
+  try {
+    response = JSON.parse(text);
+  } catch (error) {
+    response = text;
+  }
+
+  // functionResponse.response 必须是对象
+  if (!response || typeof response !== 'object' || Array.isArray(response)) {
+    response = { content: response };
+  }
+
+  return {
+    functionResponse: { name, response }
+  };
+}
+
+// 在消息开头加上发言者名称（Gemini 不支持 name 字段）
+function prependSpeakerName(parts: any[], name: any, path: string) {
+  if (name === undefined || name === null) {
+    return;
+  }
+  if (typeof name !== 'string') {
+    throw new ApiError(400, `Invalid name at ${path}, expected a string`);
+  }
+  if (!name.trim()) {
+    return;
+  }
+
+  if (typeof parts[0]?.text === 'string') {
+    parts[0] = { text: `${name.trim()}: ${parts[0].text}` };
+  } else {
+    parts.unshift({ text: `${name.trim()}:` });
+  }
+}
+
+// 占位消息文本（Gemini 要求对话以 user 开头，且不接受空消息）
+const PLACEHOLDER_USER_TEXT = 'Continue.';
+
+// Gemini 不会从末尾的 model 消息接着写，需要追加一条 user 消息要求续写
+const PREFILL_CONTINUE_TEXT = 'Continue your previous message exactly from where it stops. Reply with the continuation only, do not repeat the text that is already written.';
+
+// 只包含工具结果的消息（由 tool 消息转换而来）
+function isFunctionResponseTurn(content: any): boolean {
+  return content.parts.every((part: any) => part.functionResponse);
+}
+
+/**
+ * 规范化 Gemini 对话：去掉空消息、合并相邻的同角色消息、保证以 user 开头
+ * 工具结果只与相邻的工具结果合并，不与普通 user 消息合并
+ * 末尾的 model 消息作为续写前缀（prefill），追加一条 user 消息要求模型从该处接着写
+ */
+export function normalizeContents(contents: any[]): any[] {
+  const normalized: any[] = [];
+
+  contents.forEach((content) => {
+    if (content.parts.length === 0) {
+      return;
+    }
+
+    const lastContent = normalized[normalized.length - 1];
+    if (lastContent && lastContent.role === content.role && isFunctionResponseTurn(lastContent) === isFunctionResponseTurn(content)) {
+      lastContent.parts.push(...content.parts);
+    } else {
+      normalized.push({ role: content.role, parts: [...content.parts] });
+    }
+  });
+
+  if (normalized.length === 0 || normalized[0].role !== 'user') {
+    normalized.unshift({ role: 'user', parts: [{ text: PLACEHOLDER_USER_TEXT }] });
+  }
+
+  const lastContent = normalized[normalized.length - 1];
+  if (lastContent.role === 'model' && !lastContent.parts.some((part: any) => part.functionCall)) {
+    normalized.push({ role: 'user', parts: [{ text: PREFILL_CONTINUE_TEXT }] });
+  }
+
+  return normalized;
+}
+
+// 单条消息转换后的 Gemini 内容，支持 systemInstruction 时 system 消息的 role 为 'system'
+interface ConvertedMessage {
+  messageIndex: number;
+  role: 'user' | 'model' | 'system';
+  parts: any[];
+}
+
+// 请求转换选项
+export interface ConversionOptions {
+  // 为 false 时不添加伪装信息（旧版 completions 的 prompt、token 统计），默认按系统设置
+  disguise?: boolean;
+}
+
+// 逐条转换 OpenAI 消息，保留与原消息的对应关系（尚未合并相邻的同角色消息）
+async function convertMessages(messages: any[], model: string, options: ConversionOptions): Promise<ConvertedMessage[]> {
   // 检查是否启用伪装信息功能
-  const disguiseEnabled = await getDisguiseEnabled();
+  const disguiseEnabled = options.disguise !== false && await getDisguiseEnabled();
+  
+  // 不支持 systemInstruction 的模型仍使用 "System:" 前缀的用户消息
+  const useSystemInstruction = await shouldUseSystemInstruction(model);
   
   // 找到第一条用户消息的索引
   const firstUserMessageIndex = messages.findIndex((m: any) => m.role === 'user');
   
+  const context: ContentConversionContext = { inlineBytes: 0 };
+  // tool_call_id -> 函数名，tool 消息需要通过它找回函数名
+  const toolCallNames = new Map<string, string>();
+  
   // 转换消息格式
-  const contents = messages.map((msg: any, index: number) => {
-    let content = msg.content;
+  const converted: ConvertedMessage[] = [];
+  for (let index = 0; index < messages.length; index++) {
+    const msg = messages[index];
+    const parts = await convertContentToParts(msg.content, context, `messages[${index}].content`);
     
     // 如果启用了伪装信息功能，在第一条用户消息中添加伪装字符串
     if (disguiseEnabled && msg.role === 'user' && index === firstUserMessageIndex) {
       const disguiseString = generateDisguiseString();
-      content = `${content} [${disguiseString}]`;
+      appendTextToParts(parts, `[${disguiseString}]`);
       console.log(`[DISGUISE] Added disguise string to first user message: [${disguiseString}]`);
     }
     
-    if (msg.role === 'system') {
-      return {
-        role: 'user',
-        parts: [{ text: `System: ${content}` }]
-      };
+    if (msg.role === 'system' || msg.role === 'developer') {
+      const systemText = getTextFromParts(parts);
+      if (useSystemInstruction) {
+        converted.push({
+          messageIndex: index,
+          role: 'system',
+          parts: systemText ? [{ text: systemText }] : []
+        });
+      } else {
+        converted.push({
+          messageIndex: index,
+          role: 'user',
+          parts: [{ text: `System: ${systemText}` }]
+        });
+      }
     } else if (msg.role === 'user') {
-      return {
+      prependSpeakerName(parts, msg.name, `messages[${index}].name`);
+      converted.push({
+        messageIndex: index,
         role: 'user',
-        parts: [{ text: content }]
-      };
+        parts
+      });
     } else if (msg.role === 'assistant') {
-      return {
+      prependSpeakerName(parts, msg.name, `messages[${index}].name`);
+      if (msg.tool_calls) {
+        parts.push(...convertToolCallsToParts(msg.tool_calls, toolCallNames, `messages[${index}].tool_calls`));
+      }
+      converted.push({
+        messageIndex: index,
         role: 'model',
-        parts: [{ text: content }]
-      };
+        parts
+      });
+    } else if (msg.role === 'tool') {
+      // 连续的工具结果会在规范化时合并到同一条消息里
+      converted.push({
+        messageIndex: index,
+        role: 'user',
+        parts: [convertToolMessageToPart(msg, parts, toolCallNames, `messages[${index}]`)]
+      });
     }
-    return null;
-  }).filter(Boolean);
+  }
+  
+  return converted;
+}
+
+// 由逐条转换的消息构建 Gemini 请求
+function buildGeminiRequest(openaiRequest: any, converted: ConvertedMessage[]) {
+  const { tools, tool_choice, response_format } = openaiRequest;
+  
+  const systemParts = converted
+    .filter((message) => message.role === 'system')
+    .flatMap((message) => message.parts);
+  const contents = converted
+    .filter((message) => message.role !== 'system')
+    .map(({ role, parts }) => ({ role, parts }));
   
   // 构建 Gemini 请求
-  const geminiRequest = {
-    contents,
+  const geminiRequest: any = {
+    contents: normalizeContents(contents),
     generationConfig: {
-      maxOutputTokens: max_tokens || 2048,
-      temperature: temperature || 0.7,
+      ...convertSamplingParams(openaiRequest),
+      ...convertResponseFormat(response_format),
+      ...convertThinkingConfig(openaiRequest),
+      ...convertResponseModalities(openaiRequest),
     }
   };
   
+  if (systemParts.length > 0) {
+    geminiRequest.systemInstruction = { parts: systemParts };
+  }
+  
+  const geminiTools = convertTools(tools);
+  if (geminiTools) {
+    geminiRequest.tools = geminiTools;
+    const toolConfig = convertToolChoice(tool_choice);
+    if (toolConfig) {
+      geminiRequest.toolConfig = toolConfig;
+    }
+  }
+  
   return geminiRequest;
 }
 
-// Gemini 流式响应转换为 OpenAI SSE 格式
-export function convertGeminiStreamToOpenAI(chunk: any, model: string) {
-  const choices = [{
-    index: 0,
-    delta: {
-      content: chunk.text || ''
-    },
-    finish_reason: null
-  }];
+// OpenAI 到 Gemini 的请求转换
+export async function convertOpenAItoGemini(openaiRequest: any, options: ConversionOptions = {}) {
+  const { messages, model } = openaiRequest;
+  
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new ApiError(400, 'messages must be a non-empty array', 'messages');
+  }
+  
+  return buildGeminiRequest(openaiRequest, await convertMessages(messages, model, options));
+}
+
+/**
+ * 转换请求并同时返回每条消息对应的 Gemini parts，用于逐条统计 token
+ * 媒体只下载一次，两者的内容完全一致
+ */
+export async function convertOpenAItoGeminiWithMessageParts(openaiRequest: any, options: ConversionOptions = {}): Promise<{ geminiRequest: any; messageParts: any[][] }> {
+  const { messages, model } = openaiRequest;
+  
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new ApiError(400, 'messages must be a non-empty array', 'messages');
+  }
+  
+  const converted = await convertMessages(messages, model, options);
+  const messageParts: any[][] = messages.map(() => []);
+  for (const message of converted) {
+    messageParts[message.messageIndex] = message.parts;
+  }
   
   return {
-    id: `chatcmpl-${Date.now()}`,
+    geminiRequest: buildGeminiRequest(openaiRequest, converted),
+    messageParts,
+  };
+}
+
+// 生成工具调用 ID
+function generateToolCallId(): string {
+  return `call_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+// 从 Gemini 候选结果中提取文本、思考摘要、工具调用和生成的图片（图片为 OpenAI image_url 内容块）
+export function extractCandidateOutput(candidate: any): { text: string; reasoning: string; toolCalls: any[]; images: any[] } {
+  const parts: any[] = candidate?.content?.parts || [];
+  let text = '';
+  let reasoning = '';
+  const toolCalls: any[] = [];
+  const images: any[] = [];
+
+  for (const part of parts) {
+    if (typeof part.text === 'string' && part.thought) {
+      reasoning += part.text;
+    } else if (typeof part.text === 'string') {
+      text += part.text;
+    } else if (part.functionCall) {
+      toolCalls.push({
+        id: generateToolCallId(),
+        type: 'function',
+        function: {
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args || {})
+        }
+      });
+    } else if (part.inlineData?.mimeType?.startsWith('image/') && !part.thought) {
+      images.push({
+        type: 'image_url',
+        image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+      });
+    }
+  }
+
+  return { text, reasoning, toolCalls, images };
+}
+
+// 有生成图片时 content 使用内容块数组，否则保持字符串
+function buildMessageContent(text: string, images: any[]): string | any[] {
+  if (images.length === 0) {
+    return text;
+  }
+  return text ? [{ type: 'text', text }, ...images] : images;
+}
+
+// 会被判定为内容过滤的 Gemini finishReason
+const CONTENT_FILTER_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY'];
+
+// 将 Gemini finishReason 映射为 OpenAI finish_reason
+export function mapFinishReason(finishReason: string | undefined, hasToolCalls: boolean): string {
+  if (hasToolCalls) {
+    return 'tool_calls';
+  }
+  if (finishReason === 'MAX_TOKENS') {
+    return 'length';
+  }
+  if (finishReason && CONTENT_FILTER_FINISH_REASONS.includes(finishReason)) {
+    return 'content_filter';
+  }
+  // STOP、OTHER、MALFORMED_FUNCTION_CALL 等都视为正常结束
+  return 'stop';
+}
+
+// 检查请求是否被 Gemini 直接拦截（promptFeedback.blockReason），被拦截时返回对应的错误
+export function getPromptBlockError(geminiResponse: any): ApiError | null {
+  const blockReason = geminiResponse?.promptFeedback?.blockReason;
+  if (!blockReason || geminiResponse?.candidates?.length) {
+    return null;
+  }
+  
+  const detail = geminiResponse.promptFeedback.blockReasonMessage ? `: ${geminiResponse.promptFeedback.blockReasonMessage}` : '';
+  return new ApiError(400, `The prompt was blocked by Gemini due to ${blockReason}${detail}`, 'messages', 'content_filter');
+}
+
+// OpenAI 格式的 token 用量
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details: {
+    cached_tokens: number;
+  };
+  completion_tokens_details: {
+    reasoning_tokens: number;
+  };
+}
+
+// 将 Gemini usageMetadata 转换为 OpenAI usage（思考 token 计入 completion_tokens）
+export function convertUsageMetadata(usageMetadata: any): CompletionUsage {
+  const promptTokens = usageMetadata?.promptTokenCount || 0;
+  const reasoningTokens = usageMetadata?.thoughtsTokenCount || 0;
+  const completionTokens = (usageMetadata?.candidatesTokenCount || 0) + reasoningTokens;
+  
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usageMetadata?.totalTokenCount || promptTokens + completionTokens,
+    prompt_tokens_details: {
+      cached_tokens: usageMetadata?.cachedContentTokenCount || 0
+    },
+    completion_tokens_details: {
+      reasoning_tokens: reasoningTokens
+    }
+  };
+}
+
+// 一次请求的响应元数据（同一响应的所有 chunk 共用相同的 id 和 created）
+export interface CompletionMeta {
+  id: string;
+  created: number;
+}
+
+export function createCompletionMeta(): CompletionMeta {
+  return {
+    id: `chatcmpl-${crypto.randomUUID().replace(/-/g, '')}`,
+    created: Math.floor(Date.now() / 1000)
+  };
+}
+
+// 流式 chunk 的公共字段
+function createChunkBase(model: string, meta: CompletionMeta) {
+  return {
+    id: meta.id,
     object: 'chat.completion.chunk',
-    created: Math.floor(Date.now() / 1000),
+    created: meta.created,
     model,
+    system_fingerprint: SYSTEM_FINGERPRINT
+  };
+}
+
+// 流式转换过程中需要跨 chunk 保留的状态
+export interface StreamState {
+  meta: CompletionMeta;
+  // 每个 choice 已发送的工具调用数量（key 为 choice 序号）
+  toolCallCounts: Record<number, number>;
+  // 最近一次收到的 usageMetadata（Gemini 在每个 chunk 中给出累计值）
+  usageMetadata: any;
+  // 每个 choice 收到的 Gemini finishReason
+  finishReasons: Record<number, string>;
+}
+
+export function createStreamState(meta: CompletionMeta): StreamState {
+  return { meta, toolCallCounts: {}, usageMetadata: null, finishReasons: {} };
+}
+
+// Gemini 流式响应转换为 OpenAI SSE 格式，没有可发送的内容时返回 null
+export function convertGeminiStreamToOpenAI(chunk: any, model: string, state: StreamState) {
+  const choices: any[] = [];
+  
+  if (chunk?.usageMetadata) {
+    state.usageMetadata = chunk.usageMetadata;
+  }
+  
+  (chunk?.candidates || []).forEach((candidate: any, position: number) => {
+    const index = candidate.index ?? position;
+    const { text, reasoning, toolCalls, images } = extractCandidateOutput(candidate);
+    state.toolCallCounts[index] = state.toolCallCounts[index] || 0;
+    if (candidate.finishReason) {
+      state.finishReasons[index] = candidate.finishReason;
+    }
+    if (!text && !reasoning && toolCalls.length === 0 && images.length === 0) {
+      return;
+    }
+    
+    const delta: any = {};
+    if (reasoning) {
+      delta.reasoning_content = reasoning;
+    }
+    if (text || images.length > 0) {
+      delta.content = buildMessageContent(text, images);
+    }
+    if (toolCalls.length > 0) {
+      // 流式 tool_calls 需要带上在整个 choice 中的序号
+      delta.tool_calls = toolCalls.map((toolCall) => ({
+        index: state.toolCallCounts[index]++,
+        ...toolCall
+      }));
+    }
+    
+    choices.push({
+      index,
+      delta,
+      finish_reason: null
+    });
+  });
+  
+  if (choices.length === 0) {
+    return null;
+  }
+  
+  return {
+    ...createChunkBase(model, state.meta),
     choices
   };
 }
 
-// 创建最终的完成响应
-export function createCompletionResponse(content: string, model: string) {
+// 创建流式响应的结束 chunk（每个 choice 一条 finish_reason）
+export function createStreamFinishChunk(model: string, state: StreamState) {
+  const indexes = Object.keys(state.toolCallCounts).map(Number);
+  if (indexes.length === 0) {
+    indexes.push(0);
+  }
+  
+  return {
+    ...createChunkBase(model, state.meta),
+    choices: indexes.map((index) => ({
+      index,
+      delta: {},
+      finish_reason: mapFinishReason(state.finishReasons[index], state.toolCallCounts[index] > 0)
+    }))
+  };
+}
+
+// 创建流式响应的用量 chunk（stream_options.include_usage 为 true 时在结束前发送）
+export function createStreamUsageChunk(model: string, state: StreamState) {
+  return {
+    ...createChunkBase(model, state.meta),
+    choices: [],
+    usage: convertUsageMetadata(state.usageMetadata)
+  };
+}
+
+// 伪装流式每个 chunk 的字符数：按字符分块，而不是按词分块，这样更平滑
+const FAKE_STREAM_CHUNK_SIZE = 3;
+
+// 将完整的 Gemini 响应拆成模拟的流式 chunk，用于伪装流式传输
+export function createFakeStreamChunks(geminiResponse: any): any[] {
+  const pendingChunks: any[] = [];
+  (geminiResponse?.candidates || []).forEach((candidate: any, position: number) => {
+    const index = candidate.index ?? position;
+    const { text: fullText, reasoning } = extractCandidateOutput(candidate);
+
+    // 思考摘要在正文之前一次性发送
+    if (reasoning) {
+      pendingChunks.push({
+        candidates: [{ index, content: { parts: [{ text: reasoning, thought: true }] } }]
+      });
+    }
+
+    for (let currentIndex = 0; currentIndex < fullText.length; currentIndex += FAKE_STREAM_CHUNK_SIZE) {
+      pendingChunks.push({
+        candidates: [{ index, content: { parts: [{ text: fullText.slice(currentIndex, currentIndex + FAKE_STREAM_CHUNK_SIZE) }] } }]
+      });
+    }
+
+    // 生成的图片和工具调用在文本之后一次性发送
+    const nonTextParts = (candidate.content?.parts || []).filter((part: any) => part.functionCall || (part.inlineData && !part.thought));
+    if (nonTextParts.length > 0) {
+      pendingChunks.push({
+        candidates: [{ index, content: { parts: nonTextParts } }]
+      });
+    }
+
+    // 最后单独发送结束原因
+    pendingChunks.push({
+      candidates: [{ index, finishReason: candidate.finishReason }]
+    });
+  });
+  return pendingChunks;
+}
+
+// 将 Gemini 响应转换为最终的完成响应，请求被拦截时抛出 content_filter 错误
+export function createCompletionResponse(geminiResponse: any, model: string, meta: CompletionMeta) {
+  const blockError = getPromptBlockError(geminiResponse);
+  if (blockError) {
+    throw blockError;
+  }
+  
+  const candidates: any[] = geminiResponse?.candidates?.length ? geminiResponse.candidates : [{}];
+  
+  const choices = candidates.map((candidate: any, position: number) => {
+    const { text, reasoning, toolCalls, images } = extractCandidateOutput(candidate);
+    
+    const message: any = {
+      role: 'assistant',
+      content: toolCalls.length > 0 && !text && images.length === 0 ? null : buildMessageContent(text, images)
+    };
+    if (reasoning) {
+      message.reasoning_content = reasoning;
+    }
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    }
+    
+    return {
+      index: candidate.index ?? position,
+      message,
+      finish_reason: mapFinishReason(candidate.finishReason, toolCalls.length > 0)
+    };
+  });
+  
   return {
-    id: `chatcmpl-${Date.now()}`,
+    id: meta.id,
     object: 'chat.completion',
-    created: Math.floor(Date.now() / 1000),
+    created: meta.created,
     model,
-    choices: [{
-      index: 0,
-      message: {
-        role: 'assistant',
-        content
-      },
-      finish_reason: 'stop'
-    }],
-    usage: {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      total_tokens: 0
-    }
+    system_fingerprint: SYSTEM_FINGERPRINT,
+    choices,
+    usage: convertUsageMetadata(geminiResponse?.usageMetadata)
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+import type { IncomingHttpHeaders } from 'http';
+
+// 定时任务调用密钥：Vercel Cron 会以 Bearer Token 的形式携带 CRON_SECRET，未配置时使用管理后台密码
+export function getCronSecret(): string | undefined {
+  return process.env.CRON_SECRET || process.env.PASSWORD;
+}
+
+/**
+ * 校验定时任务请求，通过时返回 null，否则返回响应状态码与错误信息
+ * 未配置 CRON_SECRET 时 Vercel Cron 不携带任何凭证，此时返回 500 并打印错误，避免定时任务静默失效
+ * 手动触发可携带 Authorization: Bearer <PASSWORD>
+ */
+export function checkCronRequest(headers: IncomingHttpHeaders): { status: number; error: string } | null {
+  const secret = getCronSecret();
+  if (secret && headers.authorization === `Bearer ${secret}`) {
+    return null;
+  }
+
+  if (!process.env.CRON_SECRET && headers['user-agent']?.startsWith('vercel-cron')) {
+    console.error('[CRON] CRON_SECRET is not set, Vercel Cron requests cannot be authorized. Set CRON_SECRET in the project environment variables.');
+    return { status: 500, error: 'CRON_SECRET is not configured' };
+  }
+  return { status: 401, error: 'Unauthorized' };
+}
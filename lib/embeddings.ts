@@ -0,0 +1,98 @@
+import { ApiError, MAX_EMBEDDING_BATCH_SIZE } from './config';
+import { arrayBufferToBase64 } from './media';
+
+// 解析后的 embeddings 请求
+export interface EmbeddingRequest {
+  inputs: string[];
+  isBatch: boolean;
+  dimensions?: number;
+  encodingFormat: 'float' | 'base64';
+}
+
+/**
+ * 校验并解析 OpenAI embeddings 请求参数
+ * 只支持文本输入，token 数组形式的 input 无法转换给 Gemini
+ */
+export function parseEmbeddingRequest(body: any): EmbeddingRequest {
+  const { input, dimensions, encoding_format: encodingFormat } = body || {};
+  
+  const isBatch = Array.isArray(input);
+  const inputs = isBatch ? input : [input];
+  if (inputs.length === 0) {
+    throw new ApiError(400, "'input' must not be empty", 'input');
+  }
+  inputs.forEach((item: any, index: number) => {
+    if (typeof item !== 'string') {
+      throw new ApiError(400, `Invalid 'input${isBatch ? `[${index}]` : ''}': only strings are supported, token arrays are not`, 'input');
+    }
+    if (!item) {
+      throw new ApiError(400, `Invalid 'input${isBatch ? `[${index}]` : ''}': string must not be empty`, 'input');
+    }
+  });
+  
+  if (dimensions !== undefined && dimensions !== null && (!Number.isInteger(dimensions) || dimensions < 1)) {
+    throw new ApiError(400, "Invalid 'dimensions': expected a positive integer", 'dimensions');
+  }
+  
+  if (encodingFormat !== undefined && encodingFormat !== null && encodingFormat !== 'float' && encodingFormat !== 'base64') {
+    throw new ApiError(400, "Invalid 'encoding_format': expected 'float' or 'base64'", 'encoding_format');
+  }
+  
+  return {
+    inputs,
+    isBatch,
+    dimensions: dimensions ?? undefined,
+    encodingFormat: encodingFormat || 'float',
+  };
+}
+
+// 构造 Gemini embedContent 请求
+export function createEmbedContentRequest(text: string, dimensions?: number): any {
+  const request: any = {
+    content: { role: 'user', parts: [{ text }] },
+  };
+  if (dimensions) {
+    request.outputDimensionality = dimensions;
+  }
+  return request;
+}
+
+// 将输入按 batchEmbedContents 的数量上限分组
+export function chunkEmbeddingInputs(inputs: string[]): string[][] {
+  const batches: string[][] = [];
+  for (let i = 0; i < inputs.length; i += MAX_EMBEDDING_BATCH_SIZE) {
+    batches.push(inputs.slice(i, i + MAX_EMBEDDING_BATCH_SIZE));
+  }
+  return batches;
+}
+
+// 估算输入的 token 数（约 4 个字符 1 个 token），响应和日志中的 usage 都是这个估算值
+// embedding 模型不支持 countTokens，embedContent 的响应也不包含用量信息
+export function estimateEmbeddingTokens(inputs: string[]): number {
+  return inputs.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+}
+
+// base64 编码格式：float32 小端序字节
+function encodeEmbedding(values: number[], encodingFormat: 'float' | 'base64'): number[] | string {
+  if (encodingFormat === 'float') {
+    return values;
+  }
+  return arrayBufferToBase64(new Float32Array(values).buffer);
+}
+
+// 生成 OpenAI 格式的 embeddings 响应
+export function createEmbeddingResponse(embeddings: number[][], model: string, encodingFormat: 'float' | 'base64', promptTokens: number) {
+  return {
+    object: 'list',
+    data: embeddings.map((values, index) => ({
+      object: 'embedding',
+      index,
+      embedding: encodeEmbedding(values, encodingFormat),
+    })),
+    model,
+    usage: {
+      prompt_tokens: promptTokens,
+      total_tokens: promptTokens,
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { selectGeminiKeys, updateKeyUsage, markKeyAsInvalid, recordKeyLatency, GeminiKey } from './key-manager';
+import { startKeyCooldown } from './key-cooldown';
+import { classifyUpstreamError, createFinalError } from './upstream-errors';
+import { createRetryBudget, takeAttempt, backoffBeforeNextKey, createAttemptSignal } from './retry-policy';
+import { logApiCall, getUsageLogData, LogData } from './logging';
+
+// 写入日志的 token 用量
+export type LogUsage = { prompt_tokens: number; completion_tokens?: number; total_tokens: number };
+
+// 单个 key 调用成功后的结果
+export interface KeyCallResult<T> {
+  result: T;
+  usage?: LogUsage;
+  // 为 true 时不立即记录成功日志，由调用方在流式响应结束后调用 logSuccess
+  deferLog?: boolean;
+}
+
+// 记录成功日志（流式响应结束时调用，以便带上 token 用量）
+export type LogSuccess = (usage?: LogUsage) => Promise<void>;
+
+// 日志中与具体 key 无关的公共字段
+export type FailoverLogContext = Pick<LogData, 'request_id' | 'ip_address' | 'access_key_id' | 'model_requested' | 'is_stream' | 'request_type'>;
+
+/**
+ * 按 key 选择策略依次使用可用的 Gemini Key 调用上游，直到成功、遇到不可重试的错误或重试预算用完
+ * 每次尝试都会记录调用日志，API key 失效时自动标记，被限流时让 key 在该模型上进入冷却
+ * @param logContext 日志公共字段
+ * @param logPrefix 控制台日志前缀，例如 [EMBEDDINGS]
+ * @param call 使用指定 key 发起调用，流式响应可返回 deferLog 并在结束时自行调用 logSuccess；
+ *   signal 在重试截止时间到达时中止，需要传给上游请求，流式响应应在拿到第一个 chunk 后返回
+ * @returns 第一次成功调用的结果，全部失败时抛出 ApiError
+ */
+export async function callWithKeyFailover<T>(
+  logContext: FailoverLogContext,
+  logPrefix: string,
+  call: (key: GeminiKey, logSuccess: LogSuccess, signal: AbortSignal) => Promise<KeyCallResult<T>>
+): Promise<T> {
+  // countTokens 有独立的额度，不参与生成接口的冷却
+  const cooldownModel = logContext.request_type !== 'count_tokens' ? logContext.model_requested : undefined;
+  const availableKeys = await selectGeminiKeys(cooldownModel);
+  console.log(`${logPrefix} Starting with ${availableKeys.length} available keys`);
+  
+  let lastError: any = null;
+  let triedCount = 0;
+  const retryBudget = await createRetryBudget();
+  
+  for (const key of availableKeys) {
+    if (!takeAttempt(retryBudget)) {
+      console.log(`${logPrefix} Retry budget exhausted after ${triedCount} attempts, stopping retry`);
+      break;
+    }
+    
+    const keyStartTime = Date.now();
+    triedCount++;
+    
+    // 无论成功还是失败，都更新 Key 使用统计（countTokens 不消耗生成额度，不计入）
+    if (logContext.request_type !== 'count_tokens') {
+      updateKeyUsage(key.id).catch(console.error);
+    }
+    
+    const logSuccess: LogSuccess = (usage) => logApiCall({
+      ...logContext,
+      gemini_key_id: key.id,
+      response_status_code: 200,
+      duration_ms: Date.now() - keyStartTime,
+      ...getUsageLogData(usage),
+    });
+    
+    const attempt = createAttemptSignal(retryBudget);
+    try {
+      const { result, usage, deferLog } = await call(key, logSuccess, attempt.signal);
+      
+      console.log(`${logPrefix} Key ${key.id} succeeded!`);
+      recordKeyLatency(key.id, Date.now() - keyStartTime).catch(console.error);
+      if (!deferLog) {
+        logSuccess(usage).catch(console.error);
+      }
+      
+      return result;
+    } catch (error) {
+      lastError = error;
+      const errorInfo = classifyUpstreamError(error);
+      console.log(`${logPrefix} Key ${key.id} failed (${errorInfo.category}): ${errorInfo.message}`);
+      
+      logApiCall({
+        ...logContext,
+        gemini_key_id: key.id,
+        response_status_code: errorInfo.statusCode,
+        duration_ms: Date.now() - keyStartTime,
+        error_message: errorInfo.message,
+      }).catch(console.error);
+      
+      if (!errorInfo.retryable) {
+        console.log(`${logPrefix} Key ${key.id} failed with non-retryable error, stopping retry`);
+        break;
+      }
+      
+      recordKeyLatency(key.id, Date.now() - keyStartTime, true).catch(console.error);
+      
+      // key 失效时标记为无效，被限流时在该模型上进入冷却
+      if (errorInfo.invalidatesKey) {
+        markKeyAsInvalid(key.id, errorInfo.message).catch(console.error);
+      } else if (cooldownModel && errorInfo.category === 'quota') {
+        startKeyCooldown(key.id, cooldownModel, errorInfo).catch(console.error);
+      }
+      
+      await backoffBeforeNextKey(retryBudget, errorInfo);
+    } finally {
+      attempt.release();
+    }
+  }
+  
+  console.log(`${logPrefix} All ${triedCount} keys failed. Last error:`, lastError);
+  throw createFinalError(lastError, triedCount);
+}
@@ -0,0 +1,150 @@
+import { ApiError } from './config';
+
+export const DEFAULT_IMAGE_MODEL = 'imagen-4.0-generate-001';
+
+// 单次请求最多生成的图片数（Imagen sampleCount 上限）
+const MAX_IMAGES_PER_REQUEST = 4;
+
+// Imagen / Gemini 图片模型支持的宽高比
+const SUPPORTED_ASPECT_RATIOS: Array<[string, number]> = [
+  ['1:1', 1],
+  ['3:4', 3 / 4],
+  ['4:3', 4 / 3],
+  ['9:16', 9 / 16],
+  ['16:9', 16 / 9],
+];
+
+// 解析后的图片生成请求
+export interface ImageGenerationRequest {
+  prompt: string;
+  n: number;
+  aspectRatio?: string;
+  responseFormat: 'b64_json' | 'url';
+}
+
+// 生成的单张图片
+export interface GeneratedImage {
+  data: string;
+  mimeType: string;
+}
+
+// 将 OpenAI size（如 1792x1024）映射为最接近的宽高比，auto 或未传时由模型决定
+function convertSizeToAspectRatio(size: any): string | undefined {
+  if (size === undefined || size === null || size === 'auto') {
+    return undefined;
+  }
+
+  const match = typeof size === 'string' ? size.match(/^(\d+)x(\d+)$/) : null;
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+    throw new ApiError(400, "Invalid 'size': expected 'auto' or '<width>x<height>', e.g. '1024x1024'", 'size');
+  }
+
+  // 按对数比较，使横竖方向的偏差对称
+  const ratio = Math.log(Number(match[1]) / Number(match[2]));
+  let closest = SUPPORTED_ASPECT_RATIOS[0];
+  for (const candidate of SUPPORTED_ASPECT_RATIOS) {
+    if (Math.abs(Math.log(candidate[1]) - ratio) < Math.abs(Math.log(closest[1]) - ratio)) {
+      closest = candidate;
+    }
+  }
+  return closest[0];
+}
+
+/**
+ * 校验并解析 OpenAI images/generations 请求参数
+ * quality、style 等 DALL·E 专有参数没有对应的配置，直接忽略
+ */
+export function parseImageGenerationRequest(body: any): ImageGenerationRequest {
+  const { prompt, n, size, response_format: responseFormat } = body || {};
+
+  if (typeof prompt !== 'string' || !prompt) {
+    throw new ApiError(400, "'prompt' must be a non-empty string", 'prompt');
+  }
+
+  const count = n ?? 1;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGES_PER_REQUEST) {
+    throw new ApiError(400, `Invalid 'n': expected an integer between 1 and ${MAX_IMAGES_PER_REQUEST}`, 'n');
+  }
+
+  if (responseFormat !== undefined && responseFormat !== null && responseFormat !== 'b64_json' && responseFormat !== 'url') {
+    throw new ApiError(400, "Invalid 'response_format': expected 'b64_json' or 'url'", 'response_format');
+  }
+
+  return {
+    prompt,
+    n: count,
+    aspectRatio: convertSizeToAspectRatio(size),
+    responseFormat: responseFormat || 'b64_json',
+  };
+}
+
+// Imagen 模型走 predict 接口，其余（Gemini 图片模型）走 generateContent
+export function isImagenModel(model: string): boolean {
+  return model.startsWith('imagen-');
+}
+
+// 构造 Imagen predict 请求
+export function createImagenRequest(request: ImageGenerationRequest): any {
+  const parameters: any = { sampleCount: request.n };
+  if (request.aspectRatio) {
+    parameters.aspectRatio = request.aspectRatio;
+  }
+  return {
+    instances: [{ prompt: request.prompt }],
+    parameters,
+  };
+}
+
+// 从 Imagen predict 响应中提取图片，全部被安全过滤时抛出 content_filter 错误
+export function extractImagenImages(predictResponse: any): GeneratedImage[] {
+  const predictions: any[] = predictResponse?.predictions || [];
+  const images = predictions
+    .filter((prediction) => prediction.bytesBase64Encoded)
+    .map((prediction) => ({ data: prediction.bytesBase64Encoded, mimeType: prediction.mimeType || 'image/png' }));
+
+  if (images.length === 0) {
+    const reason = predictions.find((prediction) => prediction.raiFilteredReason)?.raiFilteredReason;
+    throw new ApiError(400, `No image was generated${reason ? `: ${reason}` : ', the prompt may have been blocked by safety filters'}`, 'prompt', 'content_filter');
+  }
+  return images;
+}
+
+// 构造 Gemini 图片模型的 generateContent 请求（每次生成一张）
+export function createGeminiImageRequest(request: ImageGenerationRequest): any {
+  const generationConfig: any = { responseModalities: ['TEXT', 'IMAGE'] };
+  if (request.aspectRatio) {
+    generationConfig.imageConfig = { aspectRatio: request.aspectRatio };
+  }
+  return {
+    contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+    generationConfig,
+  };
+}
+
+// 从 Gemini 响应中提取图片，没有图片时抛出错误（模型可能只返回了文本）
+export function extractGeminiImages(geminiResponse: any): GeneratedImage[] {
+  const parts: any[] = geminiResponse?.candidates?.[0]?.content?.parts || [];
+  const images = parts
+    .filter((part) => part.inlineData?.mimeType?.startsWith('image/') && !part.thought)
+    .map((part) => ({ data: part.inlineData.data, mimeType: part.inlineData.mimeType }));
+
+  if (images.length === 0) {
+    const text = parts.filter((part) => typeof part.text === 'string' && !part.thought).map((part) => part.text).join('');
+    throw new ApiError(400, `No image was generated${text ? `, model replied: ${text.slice(0, 200)}` : ''}`, 'prompt', 'content_filter');
+  }
+  return images;
+}
+
+/**
+ * 生成 OpenAI 格式的 images 响应
+ * 本服务不托管图片，response_format 为 url 时返回 data URL
+ */
+export function createImagesResponse(images: GeneratedImage[], responseFormat: 'b64_json' | 'url') {
+  return {
+    created: Math.floor(Date.now() / 1000),
+    data: images.map((image) => responseFormat === 'url'
+      ? { url: `data:${image.mimeType};base64,${image.data}` }
+      : { b64_json: image.data }
+    ),
+  };
+}
@@ -0,0 +1,161 @@
+import { kv } from '@vercel/kv';
+import { GeminiKey } from './key-manager';
+import { UpstreamErrorInfo } from './upstream-errors';
+
+// 冷却记录存放在一个 KV hash 中，字段为 `${keyId}:${model}`，所有实例共享
+const COOLDOWN_KEY = 'gemini_key_cooldowns';
+
+// 没有重试提示时的指数退避：30 秒起，每次翻倍，最长 30 分钟
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+// 冷却结束后超过该时间没有再次限流，退避次数重新计算
+const STRIKE_RESET_MS = 60 * 60 * 1000;
+
+// Gemini 的每日额度在太平洋时间午夜重置
+const DAILY_RESET_TIME_ZONE = 'America/Los_Angeles';
+
+export type CooldownReason = 'retry_after' | 'daily_quota' | 'backoff';
+
+export interface KeyCooldown {
+  keyId: string;
+  model: string;
+  // 冷却结束时间戳（毫秒）
+  until: number;
+  reason: CooldownReason;
+  // 连续限流次数，用于计算退避时间
+  strikes: number;
+}
+
+// 统一模型名，避免 models/ 前缀导致同一模型出现两条记录
+function normalizeModel(model: string): string {
+  return model.replace(/^models\//, '');
+}
+
+// key 与模型组合的标识，同时用作 KV hash 的字段名
+export function getCooldownField(keyId: string, model: string): string {
+  return `${keyId}:${normalizeModel(model)}`;
+}
+
+// 距离下一次太平洋时间午夜的毫秒数
+function getMsUntilDailyReset(now: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: DAILY_RESET_TIME_ZONE,
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(now));
+  const part = (type: string) => Number(parts.find((item) => item.type === type)?.value || 0);
+  const elapsedMs = ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000 + now % 1000;
+  return 24 * 60 * 60 * 1000 - elapsedMs;
+}
+
+// 读取所有冷却记录（包含已过期的）
+async function readCooldowns(): Promise<Record<string, KeyCooldown>> {
+  return await kv.hgetall<Record<string, KeyCooldown>>(COOLDOWN_KEY) || {};
+}
+
+/**
+ * 限流后让 key 在指定模型上进入冷却，同一个 key 的其他模型不受影响
+ * 每日额度耗尽时等到次日重置，否则优先使用上游的重试提示，都没有时按连续限流次数指数退避
+ * @param errorInfo classifyUpstreamError 的解析结果
+ * @returns 新的冷却记录，KV 不可用时返回 null
+ */
+export async function startKeyCooldown(keyId: string, model: string, errorInfo: UpstreamErrorInfo): Promise<KeyCooldown | null> {
+  try {
+    const now = Date.now();
+    const field = getCooldownField(keyId, model);
+    const previous = await kv.hget<KeyCooldown>(COOLDOWN_KEY, field);
+    const strikes = previous && now - previous.until < STRIKE_RESET_MS ? previous.strikes + 1 : 1;
+
+    let reason: CooldownReason;
+    let durationMs: number;
+    if (errorInfo.isDailyQuota) {
+      reason = 'daily_quota';
+      durationMs = getMsUntilDailyReset(now);
+    } else if (errorInfo.retryDelayMs !== null) {
+      reason = 'retry_after';
+      durationMs = errorInfo.retryDelayMs;
+    } else {
+      reason = 'backoff';
+      durationMs = Math.min(BACKOFF_BASE_MS * 2 ** (strikes - 1), BACKOFF_MAX_MS);
+    }
+
+    const cooldown: KeyCooldown = { keyId, model: normalizeModel(model), until: now + durationMs, reason, strikes };
+    await kv.hset(COOLDOWN_KEY, { [field]: cooldown });
+    console.log(`Key ${keyId} cooling down for ${cooldown.model} for ${Math.round(durationMs / 1000)}s (${reason})`);
+    return cooldown;
+  } catch (cooldownError) {
+    console.warn('Failed to start key cooldown:', cooldownError);
+    return null;
+  }
+}
+
+// 提前结束 key 在指定模型上的冷却（复检确认已恢复时使用）
+export async function clearKeyCooldown(keyId: string, model: string) {
+  try {
+    await kv.hdel(COOLDOWN_KEY, getCooldownField(keyId, model));
+  } catch (error) {
+    console.warn('Failed to clear key cooldown:', error);
+  }
+}
+
+/**
+ * 获取仍在冷却中的记录，顺便清理早已失效的记录
+ * @param keyId 只返回指定 key 的记录
+ */
+export async function getKeyCooldowns(keyId?: string): Promise<KeyCooldown[]> {
+  try {
+    const now = Date.now();
+    const cooldowns = Object.entries(await readCooldowns());
+
+    const staleFields = cooldowns
+      .filter(([, cooldown]) => now - cooldown.until >= STRIKE_RESET_MS)
+      .map(([field]) => field);
+    if (staleFields.length > 0) {
+      kv.hdel(COOLDOWN_KEY, ...staleFields).catch(console.error);
+    }
+
+    return cooldowns
+      .map(([, cooldown]) => cooldown)
+      .filter((cooldown) => cooldown.until > now && (!keyId || cooldown.keyId === keyId));
+  } catch (error) {
+    console.warn('Failed to read key cooldowns:', error);
+    return [];
+  }
+}
+
+// 只读取指定 key 在该模型上的冷却记录，KV 不可用时视为没有冷却
+async function readModelCooldowns(keys: GeminiKey[], model: string): Promise<KeyCooldown[]> {
+  if (keys.length === 0) {
+    return [];
+  }
+  try {
+    const now = Date.now();
+    const records = await kv.hmget<Record<string, KeyCooldown | null>>(COOLDOWN_KEY, ...keys.map((key) => getCooldownField(key.id, model)));
+    return Object.values(records || {})
+      .filter((cooldown): cooldown is KeyCooldown => !!cooldown && cooldown.until > now);
+  } catch (error) {
+    console.warn('Failed to read key cooldowns:', error);
+    return [];
+  }
+}
+
+/**
+ * 过滤掉在指定模型上冷却中的 key，保持原有顺序
+ * @returns 可用的 key，以及所有 key 都在冷却时最早的恢复时间
+ */
+export async function filterCoolingKeys(keys: GeminiKey[], model: string): Promise<{ keys: GeminiKey[]; nextAvailableAt: number | null }> {
+  const cooldowns = await readModelCooldowns(keys, model);
+  if (cooldowns.length === 0) {
+    return { keys, nextAvailableAt: null };
+  }
+
+  const coolingKeyIds = new Set(cooldowns.map((cooldown) => cooldown.keyId));
+  const readyKeys = keys.filter((key) => !coolingKeyIds.has(key.id));
+  return {
+    keys: readyKeys,
+    nextAvailableAt: readyKeys.length === 0 ? Math.min(...cooldowns.map((cooldown) => cooldown.until)) : null,
+  };
+}
@@ -1,23 +1,39 @@
 import { supabase } from './supabaseClient';
 import { kv } from '@vercel/kv';
 import { ApiError } from './config';
+import { getKeySelectionStrategy, KeySelectionStrategy } from './settings-manager';
+import { filterCoolingKeys } from './key-cooldown';
 import crypto from 'crypto';
 
 const CACHE_KEY = 'gemini_keys_cache';
 const CACHE_TTL = 300; // 5 minutes
 
-interface GeminiKey {
+// Key 选择策略使用的全局状态（存放在 KV 中，在所有 serverless / edge 实例间共享）
+const ROUND_ROBIN_CURSOR_KEY = 'gemini_key_rr_cursor';
+const LAST_USED_KEY = 'gemini_key_last_used';
+const LATENCY_KEY = 'gemini_key_latency';
+
+// 延迟的指数移动平均系数，以及失败调用计入的惩罚延迟
+const LATENCY_EWMA_ALPHA = 0.3;
+const FAILURE_LATENCY_MS = 30000;
+
+// 按延迟排序时随机把一个 key 提到最前的概率，使慢 key 的延迟数据也能更新
+const LATENCY_EXPLORATION_RATE = 0.1;
+
+export interface GeminiKey {
   id: string;
   api_key: string;
+  weight?: number;
 }
 
 // 从数据库获取可用的 Gemini Keys
 async function fetchKeysFromDb(): Promise<GeminiKey[]> {
   const { data, error } = await supabase
     .from('gemini_keys')
-    .select('id, api_key')
+    .select('id, api_key, weight')
     .eq('is_active', true)
-    .eq('is_valid', true);
+    .eq('is_valid', true)
+    .order('created_at', { ascending: true });
   
   if (error) {
     console.error('Failed to fetch keys from database:', error);
@@ -71,13 +87,115 @@ export async function getAllAvailableGeminiKeys(): Promise<GeminiKey[]> {
   }
 }
 
+// 进程内的轮询游标，KV 不可用时（如本地开发）使用
+let localRoundRobinCursor = 0;
+
+// 将 keys 循环左移 offset 位
+function rotateKeys(keys: GeminiKey[], offset: number): GeminiKey[] {
+  const start = offset % keys.length;
+  return [...keys.slice(start), ...keys.slice(0, start)];
+}
+
+// 全局轮询：每个请求从游标位置开始，失败时依次尝试后面的 key
+async function orderByRoundRobin(keys: GeminiKey[]): Promise<GeminiKey[]> {
+  let cursor: number;
+  try {
+    cursor = await kv.incr(ROUND_ROBIN_CURSOR_KEY);
+  } catch (error) {
+    console.warn('Round-robin cursor unavailable, using local cursor:', error);
+    cursor = ++localRoundRobinCursor;
+  }
+  return rotateKeys(keys, cursor - 1);
+}
+
+// 最久未使用优先，从未使用过的 key 排在最前
+async function orderByLeastRecentlyUsed(keys: GeminiKey[]): Promise<GeminiKey[]> {
+  const lastUsed = await kv.hgetall<Record<string, number>>(LAST_USED_KEY) || {};
+  return [...keys].sort((a, b) => (Number(lastUsed[a.id]) || 0) - (Number(lastUsed[b.id]) || 0));
+}
+
+// 按权重随机排序（权重越大越可能排在前面），权重为 0 的 key 只作为最后的备选
+function orderByWeight(keys: GeminiKey[]): GeminiKey[] {
+  return keys
+    .map((key) => {
+      const weight = key.weight ?? 1;
+      return { key, rank: weight > 0 ? -Math.log(1 - Math.random()) / weight : Infinity };
+    })
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ key }) => key);
+}
+
+// 按平均延迟从低到高排序，还没有延迟数据的 key 优先尝试
+async function orderByLatency(keys: GeminiKey[]): Promise<GeminiKey[]> {
+  const latencies = await kv.hgetall<Record<string, number>>(LATENCY_KEY) || {};
+  const ordered = [...keys].sort((a, b) => (Number(latencies[a.id]) || 0) - (Number(latencies[b.id]) || 0));
+
+  if (ordered.length > 1 && Math.random() < LATENCY_EXPLORATION_RATE) {
+    const [explored] = ordered.splice(Math.floor(Math.random() * ordered.length), 1);
+    ordered.unshift(explored);
+  }
+  return ordered;
+}
+
+/**
+ * 按系统设置中的选择策略对可用的 Gemini Keys 排序
+ * 调用方按返回顺序依次尝试，前面的 key 失败时再换下一个
+ * @param model 请求的模型，传入时跳过在该模型上冷却中的 key
+ * @param strategy 指定策略，不传时读取系统设置
+ */
+export async function selectGeminiKeys(model?: string, strategy?: KeySelectionStrategy): Promise<GeminiKey[]> {
+  let keys = await getAllAvailableGeminiKeys();
+
+  if (model) {
+    const { keys: readyKeys, nextAvailableAt } = await filterCoolingKeys(keys, model);
+    if (nextAvailableAt !== null) {
+      const retryAfter = Math.max(Math.ceil((nextAvailableAt - Date.now()) / 1000), 1);
+      const error = new ApiError(429, `All API keys are cooling down for model ${model}, retry in ${retryAfter}s`);
+      error.headers['Retry-After'] = String(retryAfter);
+      throw error;
+    }
+    keys = readyKeys;
+  }
+
+  const selectedStrategy = strategy || await getKeySelectionStrategy();
+
+  try {
+    switch (selectedStrategy) {
+      case 'least_recently_used':
+        return await orderByLeastRecentlyUsed(keys);
+      case 'weighted':
+        return orderByWeight(keys);
+      case 'latency':
+        return await orderByLatency(keys);
+      default:
+        return await orderByRoundRobin(keys);
+    }
+  } catch (error) {
+    console.warn(`Key selection strategy ${selectedStrategy} failed, using database order:`, error);
+    return keys;
+  }
+}
+
+/**
+ * 记录一次调用的延迟（指数移动平均），供 latency 策略使用
+ * @param failed 为 true 时按惩罚延迟计入，使频繁失败的 key 排到后面
+ */
+export async function recordKeyLatency(keyId: string, durationMs: number, failed = false) {
+  try {
+    const sample = failed ? FAILURE_LATENCY_MS : durationMs;
+    const previous = await kv.hget<number>(LATENCY_KEY, keyId);
+    const latency = previous ? previous * (1 - LATENCY_EWMA_ALPHA) + sample * LATENCY_EWMA_ALPHA : sample;
+    await kv.hset(LATENCY_KEY, { [keyId]: Math.round(latency) });
+  } catch (error) {
+    console.warn('Failed to record key latency:', error);
+  }
+}
+
 // 获取可用的 Gemini Key（带缓存）- 保持向后兼容
 export async function getAvailableGeminiKey(): Promise<{ keyId: string; apiKey: string }> {
-  const keys = await getAllAvailableGeminiKeys();
+  const keys = await selectGeminiKeys();
   
-  // 简单轮询选择
-  const randomIndex = Math.floor(Math.random() * keys.length);
-  const selectedKey = keys[randomIndex];
+  const selectedKey = keys[0];
   return {
     keyId: selectedKey.id,
     apiKey: selectedKey.api_key
@@ -98,18 +216,25 @@ export async function markKeyAsInvalid(keyId: string, errorMessage?: string) {
     console.log(`Marked key ${keyId} as invalid: ${errorMessage || 'Unknown error'}`);
     
     // 清除缓存，强制下次重新获取
-    if (process.env.NODE_ENV !== 'development') {
-      try {
-        await kv.del(CACHE_KEY);
-      } catch (cacheError) {
-        console.warn('Failed to clear cache:', cacheError);
-      }
-    }
+    await clearKeysCache();
   } catch (error) {
     console.error('Error marking key as invalid:', error);
   }
 }
 
+// 清除可用 Key 的缓存（Key 状态变化后调用）
+export async function clearKeysCache() {
+  if (process.env.NODE_ENV === 'development') {
+    return;
+  }
+  
+  try {
+    await kv.del(CACHE_KEY);
+  } catch (cacheError) {
+    console.warn('Failed to clear cache:', cacheError);
+  }
+}
+
 // 验证项目访问密钥
 export async function validateAccessKey(apiKey: string): Promise<string | null> {
   if (!apiKey || !apiKey.startsWith('sk-')) {
@@ -135,11 +260,31 @@ export async function validateAccessKey(apiKey: string): Promise<string | null>
   }
 }
 
-// 更新 Gemini Key 使用统计
+// 从 Authorization 头中解析并验证访问密钥，返回访问密钥 ID
+export async function authenticateAccessKey(authHeader: string | null | undefined): Promise<string> {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new ApiError(401);
+  }
+  
+  const accessKeyId = await validateAccessKey(authHeader.substring(7));
+  if (!accessKeyId) {
+    throw new ApiError(401);
+  }
+  
+  return accessKeyId;
+}
+
+// 更新 Gemini Key 使用统计（同时记录最近使用时间，供 least_recently_used 策略使用）
 export async function updateKeyUsage(keyId: string) {
   try {
     await supabase.rpc('increment_key_request_count', { key_id: keyId });
   } catch (error) {
     console.error('Error updating key usage:', error);
   }
+  
+  try {
+    await kv.hset(LAST_USED_KEY, { [keyId]: Date.now() });
+  } catch (error) {
+    console.warn('Failed to record key last used time:', error);
+  }
 }
\ No newline at end of file
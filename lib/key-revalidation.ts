@@ -0,0 +1,296 @@
+import { supabase } from './supabaseClient';
+import { markKeyAsInvalid, clearKeysCache } from './key-manager';
+import { getKeyCooldowns, clearKeyCooldown, KeyCooldown } from './key-cooldown';
+import { getKeyRevalidationConfig } from './settings-manager';
+import { classifyUpstreamError, GeminiUpstreamError, UpstreamErrorInfo } from './upstream-errors';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+// 单次探测的超时时间
+const PROBE_TIMEOUT_MS = 10000;
+
+// 同时进行的探测数，避免 key 很多时瞬间打出大量请求
+const PROBE_CONCURRENCY = 5;
+
+// 冷却剩余时间少于该值的 key 等它自然恢复，不再探测
+const COOLDOWN_PROBE_MIN_REMAINING_MS = 60 * 1000;
+
+type CheckAction = 'restored' | 'failed' | 'retired' | 'inconclusive' | 'cooldown_cleared' | 'still_cooling' | 'invalidated' | 'error';
+
+interface ProbeResult {
+  ok: boolean;
+  statusCode: number | null;
+  durationMs: number;
+  errorMessage: string | null;
+  // 失败时的错误分类
+  errorInfo: UpstreamErrorInfo | null;
+}
+
+interface InvalidKeyRow {
+  id: string;
+  api_key: string;
+  consecutive_failures: number;
+}
+
+export interface RevalidationSummary {
+  checked: number;
+  restored: number;
+  failed: number;
+  retired: number;
+  cooldownsCleared: number;
+  errors: number;
+  skipped?: boolean;
+}
+
+// 一次待执行的复检
+interface PendingCheck {
+  keyId: string;
+  checkType: 'invalid' | 'cooldown';
+  model: string | null;
+  run: () => Promise<CheckAction>;
+}
+
+// 请求上游并记录状态码与耗时，网络错误和超时的 statusCode 为 null
+async function probe(url: string, apiKey: string, init: RequestInit = {}): Promise<ProbeResult> {
+  const startTime = Date.now();
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    const errorInfo = response.ok
+      ? null
+      : classifyUpstreamError(new GeminiUpstreamError(response.status, response.statusText, await response.text().catch(() => '')));
+    return {
+      ok: response.ok,
+      statusCode: response.status,
+      durationMs: Date.now() - startTime,
+      errorMessage: errorInfo?.message || null,
+      errorInfo,
+    };
+  } catch (error) {
+    const errorInfo = classifyUpstreamError(error);
+    return {
+      ok: false,
+      statusCode: null,
+      durationMs: Date.now() - startTime,
+      errorMessage: errorInfo.message || 'Network error',
+      errorInfo,
+    };
+  }
+}
+
+// 失效 key 使用列出模型的接口探测，不消耗生成额度
+function probeKeyValidity(apiKey: string): Promise<ProbeResult> {
+  return probe(`${GEMINI_API_BASE}/models?pageSize=1`, apiKey);
+}
+
+// 冷却中的 key 在对应模型上生成 1 个 token，确认额度是否已恢复
+function probeModelQuota(apiKey: string, model: string): Promise<ProbeResult> {
+  return probe(`${GEMINI_API_BASE}/models/${encodeURIComponent(model)}:generateContent`, apiKey, {
+    method: 'POST',
+    body: JSON.stringify({
+      contents: [{ role: 'user', parts: [{ text: 'ping' }] }],
+      generationConfig: { maxOutputTokens: 1 },
+    }),
+  });
+}
+
+// 上游明确拒绝了这个 key（而不是网络错误或上游故障）
+function isKeyRejected(result: ProbeResult): boolean {
+  const category = result.errorInfo?.category;
+  return category === 'key_invalid' || category === 'permission';
+}
+
+async function recordCheck(
+  keyId: string,
+  checkType: 'invalid' | 'cooldown',
+  model: string | null,
+  result: ProbeResult,
+  action: CheckAction
+) {
+  const { error } = await supabase
+    .from('key_health_checks')
+    .insert({
+      gemini_key_id: keyId,
+      check_type: checkType,
+      model,
+      success: result.ok,
+      status_code: result.statusCode,
+      duration_ms: result.durationMs,
+      error_message: result.errorMessage,
+      action,
+    });
+
+  if (error) {
+    console.error(`[REVALIDATE] Failed to record check of key ${keyId}:`, error);
+  }
+}
+
+/**
+ * 复检一个失效的 key
+ * 能正常访问（包括被限流，说明 key 本身有效）时恢复；被上游明确拒绝时累计失败次数，达到上限后永久停用；
+ * 网络错误或上游故障不计入失败次数，避免误伤
+ */
+async function revalidateInvalidKey(key: InvalidKeyRow, maxFailures: number): Promise<CheckAction> {
+  const result = await probeKeyValidity(key.api_key);
+  const now = new Date().toISOString();
+
+  let action: CheckAction;
+  let updates: Record<string, any>;
+  if (result.ok || result.errorInfo?.category === 'quota') {
+    action = 'restored';
+    updates = { is_valid: true, consecutive_failures: 0, last_checked_at: now };
+  } else if (isKeyRejected(result)) {
+    const failures = key.consecutive_failures + 1;
+    action = failures >= maxFailures ? 'retired' : 'failed';
+    updates = {
+      consecutive_failures: failures,
+      last_checked_at: now,
+      ...(action === 'retired' ? { retired_at: now, is_active: false } : {}),
+    };
+  } else {
+    action = 'inconclusive';
+    updates = { last_checked_at: now };
+  }
+
+  const { error } = await supabase
+    .from('gemini_keys')
+    .update(updates)
+    .eq('id', key.id);
+  if (error) {
+    console.error(`[REVALIDATE] Failed to update key ${key.id}:`, error);
+    await recordCheck(key.id, 'invalid', null, { ...result, errorMessage: `Failed to update key: ${error.message}` }, 'error');
+    return 'error';
+  }
+
+  console.log(`[REVALIDATE] Invalid key ${key.id}: ${action} (${result.statusCode ?? 'network error'})`);
+  await recordCheck(key.id, 'invalid', null, result, action);
+  return action;
+}
+
+// 复检一个冷却中的 key / 模型组合，额度已恢复时提前结束冷却
+async function revalidateCooldown(cooldown: KeyCooldown, apiKey: string): Promise<CheckAction> {
+  const result = await probeModelQuota(apiKey, cooldown.model);
+
+  let action: CheckAction;
+  if (result.ok) {
+    action = 'cooldown_cleared';
+    await clearKeyCooldown(cooldown.keyId, cooldown.model);
+  } else if (result.errorInfo?.category === 'quota') {
+    action = 'still_cooling';
+  } else if (result.errorInfo?.invalidatesKey) {
+    action = 'invalidated';
+    await markKeyAsInvalid(cooldown.keyId, result.errorMessage || undefined);
+  } else {
+    action = 'inconclusive';
+  }
+
+  console.log(`[REVALIDATE] Key ${cooldown.keyId} on ${cooldown.model}: ${action} (${result.statusCode ?? 'network error'})`);
+  await recordCheck(cooldown.keyId, 'cooldown', cooldown.model, result, action);
+  return action;
+}
+
+/**
+ * 以固定并发数执行复检，单个复检出错只记为该 key 的 error，不影响其他 key
+ */
+async function runChecks(checks: PendingCheck[]): Promise<CheckAction[]> {
+  const actions: CheckAction[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < checks.length) {
+      const index = next++;
+      const check = checks[index];
+      try {
+        actions[index] = await check.run();
+      } catch (error) {
+        console.error(`[REVALIDATE] Check of key ${check.keyId} failed:`, error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await recordCheck(check.keyId, check.checkType, check.model, {
+          ok: false,
+          statusCode: null,
+          durationMs: 0,
+          errorMessage,
+          errorInfo: null,
+        }, 'error');
+        actions[index] = 'error';
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(PROBE_CONCURRENCY, checks.length) }, worker));
+  return actions;
+}
+
+/**
+ * 定时复检失效的 key 和冷却中的 key
+ * 永久停用（retired_at 不为空）和被管理员停用的 key 不参与复检
+ */
+export async function revalidateKeys(): Promise<RevalidationSummary> {
+  const config = await getKeyRevalidationConfig();
+  if (!config.enabled) {
+    return { checked: 0, restored: 0, failed: 0, retired: 0, cooldownsCleared: 0, errors: 0, skipped: true };
+  }
+
+  const { data: invalidKeys, error: invalidError } = await supabase
+    .from('gemini_keys')
+    .select('id, api_key, consecutive_failures')
+    .eq('is_active', true)
+    .eq('is_valid', false)
+    .is('retired_at', null);
+  if (invalidError) {
+    throw invalidError;
+  }
+
+  const cooldowns = (await getKeyCooldowns())
+    .filter((cooldown) => cooldown.until - Date.now() >= COOLDOWN_PROBE_MIN_REMAINING_MS);
+  const { data: coolingKeys, error: coolingError } = cooldowns.length > 0
+    ? await supabase
+      .from('gemini_keys')
+      .select('id, api_key')
+      .in('id', Array.from(new Set(cooldowns.map((cooldown) => cooldown.keyId))))
+      .eq('is_active', true)
+      .eq('is_valid', true)
+    : { data: [], error: null };
+  if (coolingError) {
+    throw coolingError;
+  }
+
+  const apiKeys = new Map((coolingKeys || []).map((key) => [key.id, key.api_key]));
+  const actions = await runChecks([
+    ...(invalidKeys || []).map((key): PendingCheck => ({
+      keyId: key.id,
+      checkType: 'invalid',
+      model: null,
+      run: () => revalidateInvalidKey(key, config.max_consecutive_failures),
+    })),
+    ...cooldowns
+      .filter((cooldown) => apiKeys.has(cooldown.keyId))
+      .map((cooldown): PendingCheck => ({
+        keyId: cooldown.keyId,
+        checkType: 'cooldown',
+        model: cooldown.model,
+        run: () => revalidateCooldown(cooldown, apiKeys.get(cooldown.keyId)!),
+      })),
+  ]);
+
+  const count = (action: CheckAction) => actions.filter((item) => item === action).length;
+  const summary: RevalidationSummary = {
+    checked: actions.length,
+    restored: count('restored'),
+    failed: count('failed'),
+    retired: count('retired'),
+    cooldownsCleared: count('cooldown_cleared'),
+    errors: count('error'),
+  };
+
+  // 有 key 恢复时清除缓存，使其立即参与负载均衡
+  if (summary.restored > 0) {
+    await clearKeysCache();
+  }
+
+  console.log('[REVALIDATE] Done:', summary);
+  return summary;
+}
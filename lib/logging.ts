@@ -2,7 +2,11 @@ import { supabase } from './supabaseClient';
 
 const MAX_LOG_COUNT = parseInt(process.env.MAX_LOG_COUNT || '300', 10);
 
-interface LogData {
+// 调用类型：count_tokens 只统计 token，不计入访问密钥的调用额度
+export type RequestType = 'chat' | 'count_tokens';
+
+export interface LogData {
+  request_id?: string;
   ip_address?: string;
   access_key_id?: string;
   gemini_key_id?: string;
@@ -11,6 +15,22 @@ interface LogData {
   duration_ms?: number;
   is_stream?: boolean;
   error_message?: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  request_type?: RequestType;
+}
+
+// 从 OpenAI usage 中提取需要写入日志的 token 数
+export function getUsageLogData(usage?: { prompt_tokens: number; completion_tokens?: number; total_tokens: number } | null) {
+  if (!usage) {
+    return {};
+  }
+  return {
+    prompt_tokens: usage.prompt_tokens,
+    completion_tokens: usage.completion_tokens ?? 0,
+    total_tokens: usage.total_tokens,
+  };
 }
 
 export async function logApiCall(logData: LogData) {
@@ -0,0 +1,287 @@
+import { ApiError, MAX_INLINE_DATA_BYTES, REMOTE_MEDIA_FETCH_TIMEOUT, REMOTE_MEDIA_MAX_REDIRECTS } from './config';
+
+// 解析后的内联数据
+export interface InlineMedia {
+  mimeType: string;
+  data: string; // base64 编码
+}
+
+// 常见的 MIME 类型别名
+const MIME_TYPE_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'audio/mpeg': 'audio/mp3',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/x-aiff': 'audio/aiff',
+  'audio/x-flac': 'audio/flac',
+  'audio/m4a': 'audio/mp4',
+  'audio/x-m4a': 'audio/mp4',
+};
+
+/**
+ * 规范化 MIME 类型（去掉参数、统一大小写和别名）
+ */
+export function normalizeMimeType(mimeType: string): string {
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_TYPE_ALIASES[normalized] || normalized;
+}
+
+/**
+ * 估算 base64 字符串解码后的字节数
+ */
+export function getBase64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/**
+ * ArrayBuffer 转 base64（不依赖 Buffer，Edge 环境也可用）
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+/**
+ * base64 转 Uint8Array（不依赖 Buffer，Edge 环境也可用）
+ */
+export function base64ToUint8Array(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 解析 data URL（data:image/png;base64,xxxx）
+ * @returns 解析结果，不是 base64 data URL 时返回 null
+ */
+export function parseDataUrl(url: string): InlineMedia | null {
+  const match = /^data:([^;,]+)((?:;[^;,]+)*?);base64,([\s\S]*)$/.exec(url);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    mimeType: normalizeMimeType(match[1]),
+    data: match[3].replace(/\s/g, ''),
+  };
+}
+
+/**
+ * 根据文件扩展名推断 MIME 类型（远程资源未返回 Content-Type 时使用）
+ */
+export function guessMimeTypeFromUrl(url: string): string | null {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'png': return 'image/png';
+    case 'jpg':
+    case 'jpeg': return 'image/jpeg';
+    case 'webp': return 'image/webp';
+    case 'heic': return 'image/heic';
+    case 'heif': return 'image/heif';
+    case 'pdf': return 'application/pdf';
+    case 'mp3': return 'audio/mp3';
+    case 'wav': return 'audio/wav';
+    case 'aif':
+    case 'aiff': return 'audio/aiff';
+    case 'aac': return 'audio/aac';
+    case 'ogg':
+    case 'oga': return 'audio/ogg';
+    case 'flac': return 'audio/flac';
+    case 'm4a': return 'audio/mp4';
+    case 'webm': return 'audio/webm';
+    default: return null;
+  }
+}
+
+// 不允许下载的主机名（本机与云厂商元数据服务）
+const BLOCKED_HOSTNAMES = new Set(['localhost', 'metadata', 'metadata.google.internal', 'instance-data']);
+
+// 本机、私有网段、链路本地（含 169.254.169.254 元数据地址）、CGNAT、组播和保留地址
+function isPrivateIPv4(a: number, b: number): boolean {
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224;
+}
+
+// 判断 IP 地址（点分十进制 IPv4 或不带方括号的 IPv6）是否为本机、内网或链路本地地址
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+  const ipv4 = /^(\d+)\.(\d+)\.\d+\.\d+$/.exec(ip);
+  if (ipv4) {
+    return isPrivateIPv4(Number(ipv4[1]), Number(ipv4[2]));
+  }
+
+  if (ip === '::' || ip === '::1') {
+    return true;
+  }
+  // IPv4 映射 / 兼容地址（::ffff:a.b.c.d、::a.b.c.d）按内嵌的 IPv4 判断
+  const dotted = /^::(?:ffff:)?(\d+)\.(\d+)\.\d+\.\d+$/.exec(ip);
+  if (dotted) {
+    return isPrivateIPv4(Number(dotted[1]), Number(dotted[2]));
+  }
+  const embedded = /^::(?:ffff:)?([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ip);
+  if (embedded) {
+    const high = parseInt(embedded[1], 16);
+    return isPrivateIPv4(high >> 8, high & 0xff);
+  }
+  // 唯一本地地址 fc00::/7、链路本地 fe80::/10、组播 ff00::/8
+  return /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+// hostname 为 URL 规范化后的结果：IPv4 统一为点分十进制，IPv6 带方括号且内嵌的 IPv4 转为十六进制
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (BLOCKED_HOSTNAMES.has(host) || host.endsWith('.localhost') || host.endsWith('.internal')) {
+    return true;
+  }
+  if (host.startsWith('[')) {
+    return isPrivateAddress(host.slice(1, -1));
+  }
+  return /^\d+\.\d+\.\d+\.\d+$/.test(host) && isPrivateAddress(host);
+}
+
+/**
+ * 判断远程资源地址是否允许下载：只允许 http(s)，拒绝本机、内网和元数据服务地址
+ * 只检查 URL 本身，域名解析结果由 resolvesToPublicAddress 检查
+ */
+export function isPublicMediaUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return (parsed.protocol === 'http:' || parsed.protocol === 'https:') && !isPrivateHost(parsed.hostname);
+}
+
+// Edge Runtime 中无法解析域名
+function isEdgeRuntime(): boolean {
+  return typeof (globalThis as any).EdgeRuntime === 'string';
+}
+
+/**
+ * 解析域名，所有解析结果都是公网地址时才允许下载（防止域名指向本机或内网，如 127.0.0.1.nip.io）
+ * 仅在 Node 环境中可用；解析与实际请求之间的 DNS 变化（DNS rebinding）无法完全避免
+ */
+async function resolvesToPublicAddress(hostname: string): Promise<boolean> {
+  if (hostname.startsWith('[') || /^\d+\.\d+\.\d+\.\d+$/.test(hostname)) {
+    return true; // IP 地址已由 isPublicMediaUrl 检查
+  }
+  const { lookup } = await import('node:dns/promises');
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+}
+
+// 读取响应体，超过 maxBytes 时立即中止下载
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new ApiError(400, `Media is too large (more than ${maxBytes} bytes)`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * 下载远程资源并转换为内联数据
+ * 每次重定向都会重新检查目标地址及其解析结果，错误信息中不包含 URL
+ * Edge 环境无法解析域名，只有设置 ALLOW_EDGE_REMOTE_MEDIA=true 时才允许下载（此时只检查 URL 本身）
+ * @param url 资源地址（http/https）
+ * @param maxBytes 允许的最大字节数
+ */
+export async function fetchRemoteMedia(url: string, maxBytes: number = MAX_INLINE_DATA_BYTES): Promise<InlineMedia> {
+  const edgeRuntime = isEdgeRuntime();
+  if (edgeRuntime && process.env.ALLOW_EDGE_REMOTE_MEDIA !== 'true') {
+    throw new ApiError(400, 'Remote media URLs are not enabled on this endpoint, send the media as a base64 data URL instead');
+  }
+
+  const signal = AbortSignal.timeout(REMOTE_MEDIA_FETCH_TIMEOUT);
+  let currentUrl = url;
+  let response: Response;
+  let bytes: Uint8Array;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      if (!isPublicMediaUrl(currentUrl) || (!edgeRuntime && !(await resolvesToPublicAddress(new URL(currentUrl).hostname)))) {
+        throw new ApiError(400, 'Media URL must point to a public http(s) address');
+      }
+
+      response = await fetch(currentUrl, { redirect: 'manual', signal });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+      if (redirects >= REMOTE_MEDIA_MAX_REDIRECTS) {
+        throw new ApiError(400, `Failed to download media: more than ${REMOTE_MEDIA_MAX_REDIRECTS} redirects`);
+      }
+      currentUrl = new URL(location, currentUrl).toString();
+    }
+
+    if (!response.ok) {
+      throw new ApiError(400, `Failed to download media: HTTP ${response.status}`);
+    }
+
+    const contentLength = parseInt(response.headers.get('content-length') || '0', 10);
+    if (contentLength > maxBytes) {
+      throw new ApiError(400, `Media is too large (${contentLength} bytes, max ${maxBytes} bytes)`);
+    }
+
+    bytes = await readBodyWithLimit(response, maxBytes);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(400, `Failed to download media: ${(error as any)?.name === 'TimeoutError' ? 'timed out' : 'network error'}`);
+  }
+
+  const headerMimeType = normalizeMimeType(response.headers.get('content-type') || '');
+  const mimeType = headerMimeType && headerMimeType !== 'application/octet-stream'
+    ? headerMimeType
+    : guessMimeTypeFromUrl(currentUrl) || headerMimeType;
+
+  return {
+    mimeType,
+    data: arrayBufferToBase64(bytes.buffer as ArrayBuffer),
+  };
+}
+
+/**
+ * 判断 URL 是否可以直接作为 Gemini fileData 引用（Files API 上传的文件或 YouTube 视频）
+ */
+export function isGeminiFileUri(url: string): boolean {
+  return url.startsWith('https://generativelanguage.googleapis.com/') ||
+    /^https:\/\/(www\.)?(youtube\.com|youtu\.be)\//.test(url);
+}
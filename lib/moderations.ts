@@ -0,0 +1,184 @@
+import { ApiError } from './config';
+
+// 未指定 Gemini 模型（如 omni-moderation-latest）时用于获取安全评级的模型
+export const DEFAULT_MODERATION_MODEL = 'gemini-2.0-flash';
+const DEFAULT_RESPONSE_MODEL = 'omni-moderation-latest';
+
+// 单次请求最多审核的输入数
+const MAX_MODERATION_INPUTS = 32;
+
+// 模型复述输入的最大 token 数（复述内容同样会被评级，但不需要完整）
+const MODERATION_MAX_OUTPUT_TOKENS = 256;
+
+// 分数达到该值即视为命中（对应 MEDIUM 及以上）
+const FLAG_THRESHOLD = 0.5;
+
+// OpenAI omni-moderation 的全部分类
+const OPENAI_CATEGORIES = [
+  'harassment',
+  'harassment/threatening',
+  'hate',
+  'hate/threatening',
+  'illicit',
+  'illicit/violent',
+  'self-harm',
+  'self-harm/intent',
+  'self-harm/instructions',
+  'sexual',
+  'sexual/minors',
+  'violence',
+  'violence/graphic',
+];
+
+// Gemini 安全分类对应的 OpenAI 分类，Gemini 没有细分的子分类始终为 0
+const CATEGORY_MAPPING: Record<string, string[]> = {
+  HARM_CATEGORY_HARASSMENT: ['harassment'],
+  HARM_CATEGORY_HATE_SPEECH: ['hate'],
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: ['sexual'],
+  HARM_CATEGORY_DANGEROUS_CONTENT: ['illicit', 'self-harm', 'violence'],
+};
+
+// Gemini 概率等级对应的分数（Vertex AI 返回 probabilityScore 时优先使用）
+const PROBABILITY_SCORES: Record<string, number> = {
+  NEGLIGIBLE: 0,
+  LOW: 0.3,
+  MEDIUM: 0.6,
+  HIGH: 0.9,
+};
+
+// 复述输入，让输出内容也经过安全评级
+const MODERATION_INSTRUCTION = 'Repeat the user input verbatim. If it contains images, describe them in detail instead.';
+
+// 解析后的 moderations 请求，inputs 中每一项对应一个结果
+export interface ModerationRequest {
+  model: string;
+  geminiModel: string;
+  inputs: Array<string | any[]>;
+}
+
+// 校验多模态输入中的内容块（只支持文本和图片）
+function validateContentParts(parts: any[]) {
+  parts.forEach((part, index) => {
+    if (part?.type === 'text') {
+      if (typeof part.text !== 'string' || !part.text) {
+        throw new ApiError(400, `Invalid 'input[${index}].text': expected a non-empty string`, 'input');
+      }
+    } else if (part?.type !== 'image_url') {
+      throw new ApiError(400, `Unsupported 'input[${index}].type' "${part?.type}", expected 'text' or 'image_url'`, 'input');
+    }
+  });
+}
+
+/**
+ * 校验并解析 OpenAI moderations 请求参数
+ * 字符串数组中每个字符串各自返回一个结果；内容块数组（文本 + 图片）作为一个整体返回一个结果
+ */
+export function parseModerationRequest(body: any): ModerationRequest {
+  const { input, model } = body || {};
+
+  if (model !== undefined && model !== null && typeof model !== 'string') {
+    throw new ApiError(400, "Invalid 'model': expected a string", 'model');
+  }
+
+  let inputs: Array<string | any[]>;
+  if (typeof input === 'string') {
+    inputs = [input];
+  } else if (Array.isArray(input) && input.length > 0 && input.every((item) => typeof item === 'string')) {
+    inputs = input;
+  } else if (Array.isArray(input) && input.length > 0 && input.every((item) => item && typeof item === 'object')) {
+    validateContentParts(input);
+    inputs = [input];
+  } else {
+    throw new ApiError(400, "Invalid 'input': expected a string, an array of strings or an array of content parts", 'input');
+  }
+
+  if (inputs.length > MAX_MODERATION_INPUTS) {
+    throw new ApiError(400, `Too many inputs: at most ${MAX_MODERATION_INPUTS} are allowed per request`, 'input');
+  }
+  if (inputs.some((item) => item === '')) {
+    throw new ApiError(400, "Invalid 'input': strings must not be empty", 'input');
+  }
+
+  return {
+    model: model || DEFAULT_RESPONSE_MODEL,
+    geminiModel: model?.startsWith('gemini-') ? model : DEFAULT_MODERATION_MODEL,
+    inputs,
+  };
+}
+
+// 构造获取安全评级的请求：阈值调到最低，使评级尽量随响应返回
+export function createModerationRequest(parts: any[]): any {
+  return {
+    contents: [{ role: 'user', parts }],
+    systemInstruction: { parts: [{ text: MODERATION_INSTRUCTION }] },
+    safetySettings: Object.keys(CATEGORY_MAPPING).map((category) => ({ category, threshold: 'BLOCK_LOW_AND_ABOVE' })),
+    generationConfig: { maxOutputTokens: MODERATION_MAX_OUTPUT_TOKENS, temperature: 0 },
+  };
+}
+
+function getRatingScore(rating: any): number {
+  if (typeof rating?.probabilityScore === 'number') {
+    return rating.probabilityScore;
+  }
+  return PROBABILITY_SCORES[rating?.probability] ?? 0;
+}
+
+// 输入中包含的模态（text / image），用于 category_applied_input_types
+function getInputTypes(input: string | any[]): string[] {
+  if (typeof input === 'string') {
+    return ['text'];
+  }
+  const types = new Set<string>(input.map((part) => part.type === 'image_url' ? 'image' : 'text'));
+  return ['text', 'image'].filter((type) => types.has(type));
+}
+
+/**
+ * 将 Gemini 安全评级转换为 OpenAI moderation 结果
+ * 合并 prompt 与候选输出两处的评级并按分类取最大值；
+ * 请求因 PROHIBITED_CONTENT 等非分类原因被拦截时，即使没有评级也标记为 flagged
+ */
+export function createModerationResult(geminiResponse: any, input: string | any[]) {
+  const promptFeedback = geminiResponse?.promptFeedback;
+  const candidate = geminiResponse?.candidates?.[0];
+  const ratings: any[] = [...(promptFeedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])];
+
+  const categoryScores: Record<string, number> = {};
+  const categories: Record<string, boolean> = {};
+  OPENAI_CATEGORIES.forEach((category) => {
+    categoryScores[category] = 0;
+    categories[category] = false;
+  });
+
+  for (const rating of ratings) {
+    const score = getRatingScore(rating);
+    for (const category of CATEGORY_MAPPING[rating?.category] || []) {
+      categoryScores[category] = Math.max(categoryScores[category], score);
+      categories[category] = categories[category] || score >= FLAG_THRESHOLD || rating.blocked === true;
+    }
+  }
+
+  const blockReason = promptFeedback?.blockReason;
+  const blockedWithoutCategory = !!blockReason && blockReason !== 'SAFETY';
+
+  const inputTypes = getInputTypes(input);
+  const appliedInputTypes: Record<string, string[]> = {};
+  OPENAI_CATEGORIES.forEach((category) => {
+    appliedInputTypes[category] = Object.values(CATEGORY_MAPPING).some((mapped) => mapped.includes(category)) ? inputTypes : [];
+  });
+
+  return {
+    flagged: blockedWithoutCategory || Object.values(categories).some(Boolean),
+    categories,
+    category_scores: categoryScores,
+    category_applied_input_types: appliedInputTypes,
+  };
+}
+
+// 生成 OpenAI 格式的 moderations 响应
+export function createModerationResponse(results: any[], model: string) {
+  return {
+    id: `modr-${crypto.randomUUID().replace(/-/g, '')}`,
+    model,
+    results,
+  };
+}
@@ -0,0 +1,532 @@
+import { supabase } from './supabaseClient';
+import { ApiError } from './config';
+import { CompletionUsage } from './converter';
+
+// Responses API 中 finish_reason 对应的未完成原因
+const INCOMPLETE_REASONS: Record<string, string> = {
+  length: 'max_output_tokens',
+  content_filter: 'content_filter',
+};
+
+// 保存的响应保留时长，同一对话有新的响应时整条对话一起续期
+const STORED_RESPONSE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// 保存的一轮响应：只包含本轮新增的消息，完整对话沿 previous_response_id 还原
+export interface StoredResponse {
+  id: string;
+  // 对话中第一轮响应的 ID，旧版本保存的响应（messages 为完整对话）为 null
+  conversation_id: string | null;
+  previous_response_id: string | null;
+  messages: any[];
+  response: any;
+}
+
+// 生成 Responses API 使用的 ID（resp_xxx、msg_xxx、fc_xxx、rs_xxx）
+export function generateResponseId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+// 转换 input 中的内容块为 Chat Completions 内容块
+function convertInputContent(content: any, path: string): any {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    throw new ApiError(400, `Invalid content at ${path}, expected a string or an array of content parts`, 'input');
+  }
+
+  return content.map((part: any, index: number) => {
+    const partPath = `${path}[${index}]`;
+    switch (part?.type) {
+      case 'input_text':
+      case 'output_text':
+        return { type: 'text', text: part.text };
+      case 'input_image':
+        if (!part.image_url) {
+          throw new ApiError(400, `Missing image_url at ${partPath}, file_id references are not supported`, 'input');
+        }
+        return { type: 'image_url', image_url: { url: part.image_url } };
+      case 'input_file':
+        if (!part.file_data && !part.file_url) {
+          throw new ApiError(400, `Missing file_data at ${partPath}, file_id references are not supported`, 'input');
+        }
+        return { type: 'file', file: { file_data: part.file_data || part.file_url } };
+      default:
+        throw new ApiError(400, `Unsupported content part type "${part?.type}" at ${partPath}`, 'input');
+    }
+  });
+}
+
+// 将 input（字符串或 item 数组）转换为 Chat Completions 消息
+function convertInputItems(input: any): any[] {
+  if (typeof input === 'string') {
+    return [{ role: 'user', content: input }];
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new ApiError(400, "'input' must be a string or a non-empty array", 'input');
+  }
+
+  const messages: any[] = [];
+  input.forEach((item: any, index: number) => {
+    const path = `input[${index}]`;
+    const lastMessage = messages[messages.length - 1];
+
+    if (item?.type === 'function_call') {
+      const toolCall = {
+        id: item.call_id,
+        type: 'function',
+        function: { name: item.name, arguments: item.arguments || '{}' },
+      };
+      // 连续的函数调用属于同一条 assistant 消息
+      if (lastMessage?.role === 'assistant' && lastMessage.tool_calls) {
+        lastMessage.tool_calls.push(toolCall);
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [toolCall] });
+      }
+    } else if (item?.type === 'function_call_output') {
+      messages.push({
+        role: 'tool',
+        tool_call_id: item.call_id,
+        content: typeof item.output === 'string' ? item.output : JSON.stringify(item.output),
+      });
+    } else if (item?.type === 'reasoning') {
+      // 思考摘要无法回传给 Gemini，直接忽略
+    } else if (item?.role && (item.type === undefined || item.type === 'message')) {
+      if (!['user', 'assistant', 'system', 'developer'].includes(item.role)) {
+        throw new ApiError(400, `Invalid role "${item.role}" at ${path}`, 'input');
+      }
+      messages.push({ role: item.role, content: convertInputContent(item.content, `${path}.content`) });
+    } else {
+      throw new ApiError(400, `Unsupported input item type "${item?.type}" at ${path}`, 'input');
+    }
+  });
+
+  return messages;
+}
+
+// 转换 Responses API 的 tools（只支持 function 类型）
+function convertTools(tools: any): any[] | undefined {
+  if (tools === undefined || tools === null) {
+    return undefined;
+  }
+  if (!Array.isArray(tools)) {
+    throw new ApiError(400, "Invalid 'tools': expected an array", 'tools');
+  }
+
+  return tools.map((tool: any, index: number) => {
+    if (tool?.type !== 'function') {
+      throw new ApiError(400, `Unsupported tool type "${tool?.type}" at tools[${index}], only function tools are supported`, 'tools');
+    }
+    return {
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    };
+  });
+}
+
+// 转换 tool_choice（{ type: 'function', name } 形式需要改写）
+function convertToolChoice(toolChoice: any): any {
+  if (toolChoice?.type === 'function') {
+    return { type: 'function', function: { name: toolChoice.name } };
+  }
+  return toolChoice;
+}
+
+// 转换 text.format 为 response_format
+function convertTextFormat(format: any): any {
+  if (!format || format.type === 'text') {
+    return undefined;
+  }
+  if (format.type === 'json_schema') {
+    return {
+      type: 'json_schema',
+      json_schema: { name: format.name, schema: format.schema, strict: format.strict },
+    };
+  }
+  return format;
+}
+
+/**
+ * 将 Responses API 请求转换为 Chat Completions 请求，之后复用 convertOpenAItoGemini
+ * @param body 请求体
+ * @param previousMessages previous_response_id 对应的历史消息
+ * @returns Chat Completions 请求，以及本轮需要保存到历史中的输入消息
+ */
+export function convertResponsesToOpenAI(body: any, previousMessages: any[]): { openaiRequest: any; inputMessages: any[] } {
+  if (!body?.model) {
+    throw new ApiError(400, "'model' is required", 'model');
+  }
+
+  const inputMessages = convertInputItems(body.input);
+  // instructions 只对本轮生效，不写入历史
+  const messages = [
+    ...(body.instructions ? [{ role: 'system', content: body.instructions }] : []),
+    ...previousMessages,
+    ...inputMessages,
+  ];
+
+  return {
+    openaiRequest: {
+      model: body.model,
+      messages,
+      max_tokens: body.max_output_tokens,
+      temperature: body.temperature,
+      top_p: body.top_p,
+      tools: convertTools(body.tools),
+      tool_choice: convertToolChoice(body.tool_choice),
+      response_format: convertTextFormat(body.text?.format),
+      reasoning_effort: body.reasoning?.effort,
+      stream: body.stream === true,
+    },
+    inputMessages,
+  };
+}
+
+// 一次响应的公共信息
+export interface ResponseContext {
+  id: string;
+  createdAt: number;
+  model: string;
+  body: any;
+}
+
+// Chat Completions usage 转换为 Responses API usage
+function convertUsage(usage: CompletionUsage) {
+  return {
+    input_tokens: usage.prompt_tokens,
+    input_tokens_details: { cached_tokens: usage.prompt_tokens_details.cached_tokens },
+    output_tokens: usage.completion_tokens,
+    output_tokens_details: { reasoning_tokens: usage.completion_tokens_details.reasoning_tokens },
+    total_tokens: usage.total_tokens,
+  };
+}
+
+/**
+ * 构造 Response 对象
+ * @param output 输出 item 列表，为 null 时表示响应仍在进行中
+ * @param error 响应失败时的错误信息
+ */
+export function buildResponseObject(context: ResponseContext, output: any[] | null, finishReason?: string, usage?: CompletionUsage, error?: { code: string; message: string }) {
+  const { body } = context;
+  const incompleteReason = finishReason ? INCOMPLETE_REASONS[finishReason] : undefined;
+  const outputText = (output || [])
+    .filter((item) => item.type === 'message')
+    .flatMap((item) => item.content.map((part: any) => part.text))
+    .join('');
+
+  return {
+    id: context.id,
+    object: 'response',
+    created_at: context.createdAt,
+    status: error ? 'failed' : output === null ? 'in_progress' : incompleteReason ? 'incomplete' : 'completed',
+    error: error ?? null,
+    incomplete_details: incompleteReason ? { reason: incompleteReason } : null,
+    instructions: body.instructions ?? null,
+    max_output_tokens: body.max_output_tokens ?? null,
+    model: context.model,
+    output: output || [],
+    output_text: outputText,
+    parallel_tool_calls: body.parallel_tool_calls ?? true,
+    previous_response_id: body.previous_response_id ?? null,
+    reasoning: body.reasoning ?? null,
+    store: body.store !== false,
+    temperature: body.temperature ?? null,
+    text: body.text ?? { format: { type: 'text' } },
+    tool_choice: body.tool_choice ?? 'auto',
+    tools: body.tools ?? [],
+    top_p: body.top_p ?? null,
+    usage: usage ? convertUsage(usage) : null,
+    metadata: body.metadata ?? {},
+  };
+}
+
+// 取出 message content 中的文本（图片输出模型返回的内容块数组只保留文本）
+function getContentText(content: any): string {
+  if (Array.isArray(content)) {
+    return content.filter((part: any) => part.type === 'text').map((part: any) => part.text).join('');
+  }
+  return content || '';
+}
+
+// 将非流式 Chat Completions 响应的 message 转换为输出 item
+export function convertMessageToOutputItems(message: any): any[] {
+  const output: any[] = [];
+  if (message.reasoning_content) {
+    output.push({
+      type: 'reasoning',
+      id: generateResponseId('rs'),
+      summary: [{ type: 'summary_text', text: message.reasoning_content }],
+    });
+  }
+  const text = getContentText(message.content);
+  if (text) {
+    output.push({
+      type: 'message',
+      id: generateResponseId('msg'),
+      status: 'completed',
+      role: 'assistant',
+      content: [{ type: 'output_text', text, annotations: [] }],
+    });
+  }
+  for (const toolCall of message.tool_calls || []) {
+    output.push({
+      type: 'function_call',
+      id: generateResponseId('fc'),
+      call_id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      status: 'completed',
+    });
+  }
+  return output;
+}
+
+// 输出 item 转换回 Chat Completions 的 assistant 消息（保存到历史中）
+export function convertOutputItemsToMessage(output: any[]): any {
+  const text = output
+    .filter((item) => item.type === 'message')
+    .flatMap((item) => item.content.map((part: any) => part.text))
+    .join('');
+  const toolCalls = output
+    .filter((item) => item.type === 'function_call')
+    .map((item) => ({ id: item.call_id, type: 'function', function: { name: item.name, arguments: item.arguments } }));
+
+  return {
+    role: 'assistant',
+    content: text || null,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+  };
+}
+
+// 流式转换过程中需要跨 chunk 保留的状态
+export interface ResponsesStreamState {
+  sequenceNumber: number;
+  // 已完成的输出 item
+  output: any[];
+  // 当前正在输出的 item
+  current: any | null;
+}
+
+export function createResponsesStreamState(): ResponsesStreamState {
+  return { sequenceNumber: 0, output: [], current: null };
+}
+
+// 格式化一条 Responses API SSE 事件
+export function formatResponseEvent(state: ResponsesStreamState, type: string, data: any): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: state.sequenceNumber++, ...data })}\n\n`;
+}
+
+// 结束当前 item，流中途失败时 item 状态为 incomplete
+function closeCurrentItem(state: ResponsesStreamState, events: string[], status: 'completed' | 'incomplete' = 'completed') {
+  const item = state.current;
+  if (!item) {
+    return;
+  }
+  const outputIndex = state.output.length;
+
+  if (item.type === 'reasoning') {
+    const part = item.summary[0];
+    events.push(formatResponseEvent(state, 'response.reasoning_summary_text.done', { item_id: item.id, output_index: outputIndex, summary_index: 0, text: part.text }));
+    events.push(formatResponseEvent(state, 'response.reasoning_summary_part.done', { item_id: item.id, output_index: outputIndex, summary_index: 0, part }));
+  } else if (item.type === 'message') {
+    const part = item.content[0];
+    events.push(formatResponseEvent(state, 'response.output_text.done', { item_id: item.id, output_index: outputIndex, content_index: 0, text: part.text }));
+    events.push(formatResponseEvent(state, 'response.content_part.done', { item_id: item.id, output_index: outputIndex, content_index: 0, part }));
+    item.status = status;
+  } else if (item.type === 'function_call') {
+    events.push(formatResponseEvent(state, 'response.function_call_arguments.done', { item_id: item.id, output_index: outputIndex, arguments: item.arguments }));
+    item.status = status;
+  }
+
+  events.push(formatResponseEvent(state, 'response.output_item.done', { output_index: outputIndex, item }));
+  state.output.push(item);
+  state.current = null;
+}
+
+// 开始新的 item
+function openItem(state: ResponsesStreamState, events: string[], item: any) {
+  closeCurrentItem(state, events);
+  state.current = item;
+  const outputIndex = state.output.length;
+  events.push(formatResponseEvent(state, 'response.output_item.added', { output_index: outputIndex, item: { ...item } }));
+
+  if (item.type === 'reasoning') {
+    events.push(formatResponseEvent(state, 'response.reasoning_summary_part.added', { item_id: item.id, output_index: outputIndex, summary_index: 0, part: { type: 'summary_text', text: '' } }));
+    item.summary.push({ type: 'summary_text', text: '' });
+  } else if (item.type === 'message') {
+    events.push(formatResponseEvent(state, 'response.content_part.added', { item_id: item.id, output_index: outputIndex, content_index: 0, part: { type: 'output_text', text: '', annotations: [] } }));
+    item.content.push({ type: 'output_text', text: '', annotations: [] });
+  }
+}
+
+// 将 Chat Completions 流式 chunk（第一个 choice）转换为 Responses API 事件
+export function convertChatChunkToResponseEvents(chunk: any, state: ResponsesStreamState): string[] {
+  const events: string[] = [];
+  const delta = chunk?.choices?.find((choice: any) => choice.index === 0)?.delta;
+  if (!delta) {
+    return events;
+  }
+
+  if (delta.reasoning_content) {
+    if (state.current?.type !== 'reasoning') {
+      openItem(state, events, { type: 'reasoning', id: generateResponseId('rs'), summary: [] });
+    }
+    state.current.summary[0].text += delta.reasoning_content;
+    events.push(formatResponseEvent(state, 'response.reasoning_summary_text.delta', {
+      item_id: state.current.id, output_index: state.output.length, summary_index: 0, delta: delta.reasoning_content,
+    }));
+  }
+
+  const text = getContentText(delta.content);
+  if (text) {
+    if (state.current?.type !== 'message') {
+      openItem(state, events, { type: 'message', id: generateResponseId('msg'), status: 'in_progress', role: 'assistant', content: [] });
+    }
+    state.current.content[0].text += text;
+    events.push(formatResponseEvent(state, 'response.output_text.delta', {
+      item_id: state.current.id, output_index: state.output.length, content_index: 0, delta: text,
+    }));
+  }
+
+  for (const toolCall of delta.tool_calls || []) {
+    openItem(state, events, {
+      type: 'function_call',
+      id: generateResponseId('fc'),
+      call_id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      status: 'in_progress',
+    });
+    events.push(formatResponseEvent(state, 'response.function_call_arguments.delta', {
+      item_id: state.current.id, output_index: state.output.length, delta: toolCall.function.arguments,
+    }));
+    closeCurrentItem(state, events);
+  }
+
+  return events;
+}
+
+// 结束流：关闭当前 item 并发送 response.completed / response.incomplete
+export function createResponsesStreamEndEvents(state: ResponsesStreamState, context: ResponseContext, finishReason: string, usage: CompletionUsage): { events: string[]; response: any } {
+  const events: string[] = [];
+  closeCurrentItem(state, events);
+  const response = buildResponseObject(context, state.output, finishReason, usage);
+  events.push(formatResponseEvent(state, response.status === 'incomplete' ? 'response.incomplete' : 'response.completed', { response }));
+  return { events, response };
+}
+
+// 流中途失败：结束当前 item 并发送带错误信息的 response.failed
+export function createResponsesStreamFailedEvents(state: ResponsesStreamState, context: ResponseContext, message: string, usage?: CompletionUsage): { events: string[]; response: any } {
+  const events: string[] = [];
+  closeCurrentItem(state, events, 'incomplete');
+  const response = buildResponseObject(context, state.output, undefined, usage, { code: 'server_error', message });
+  events.push(formatResponseEvent(state, 'response.failed', { response }));
+  return { events, response };
+}
+
+// 读取已保存的响应（只能读取同一访问密钥创建的、未过期的响应）
+export async function getStoredResponse(id: string, accessKeyId: string): Promise<StoredResponse | null> {
+  const { data, error } = await supabase
+    .from('stored_responses')
+    .select('id, conversation_id, previous_response_id, messages, response')
+    .eq('id', id)
+    .eq('access_key_id', accessKeyId)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+  return data;
+}
+
+/**
+ * 还原截至指定响应的完整对话：一次读出同一对话的所有轮次，再沿 previous_response_id 向前拼接
+ * 中间某一轮已被删除时，只保留其后的部分
+ */
+export async function getStoredConversation(stored: StoredResponse, accessKeyId: string): Promise<any[]> {
+  if (!stored.conversation_id) {
+    return stored.messages;
+  }
+
+  const { data, error } = await supabase
+    .from('stored_responses')
+    .select('id, conversation_id, previous_response_id, messages')
+    .eq('access_key_id', accessKeyId)
+    .or(`id.eq.${stored.conversation_id},conversation_id.eq.${stored.conversation_id}`);
+  if (error) {
+    console.error('Failed to load stored conversation:', error);
+    throw new ApiError(500);
+  }
+
+  const turns = new Map<string, Pick<StoredResponse, 'previous_response_id' | 'messages'>>((data || []).map((row) => [row.id, row]));
+  const chain: any[][] = [stored.messages];
+  let previousId = stored.previous_response_id;
+  while (previousId && chain.length <= turns.size) {
+    const turn = turns.get(previousId);
+    if (!turn) {
+      console.warn(`Stored response ${previousId} is missing, conversation of ${stored.id} is truncated`);
+      break;
+    }
+    chain.unshift(turn.messages);
+    previousId = turn.previous_response_id;
+  }
+  return chain.flat();
+}
+
+/**
+ * 保存本轮响应及本轮新增的消息（输入与输出），供 previous_response_id 使用
+ * 同时为整条对话续期，并清理已过期的响应
+ * @param previous previous_response_id 对应的响应，新对话为 null
+ */
+export async function saveStoredResponse(id: string, accessKeyId: string, previous: StoredResponse | null, messages: any[], response: any) {
+  const conversationId = previous ? previous.conversation_id ?? previous.id : id;
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + STORED_RESPONSE_TTL_MS).toISOString();
+
+  const { error } = await supabase
+    .from('stored_responses')
+    .insert([{
+      id,
+      access_key_id: accessKeyId,
+      conversation_id: conversationId,
+      previous_response_id: previous?.id ?? null,
+      messages,
+      response,
+      expires_at: expiresAt,
+    }]);
+  if (error) {
+    console.error('Failed to store response:', error);
+    return;
+  }
+
+  if (previous) {
+    const { error: renewError } = await supabase
+      .from('stored_responses')
+      .update({ expires_at: expiresAt })
+      .or(`id.eq.${conversationId},conversation_id.eq.${conversationId}`);
+    if (renewError) {
+      console.error('Failed to renew stored conversation:', renewError);
+    }
+  }
+
+  const { error: pruneError } = await supabase
+    .from('stored_responses')
+    .delete()
+    .lt('expires_at', now.toISOString());
+  if (pruneError) {
+    console.error('Failed to prune expired responses:', pruneError);
+  }
+}
+
+// 删除已保存的响应
+export async function deleteStoredResponse(id: string, accessKeyId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('stored_responses')
+    .delete()
+    .eq('id', id)
+    .eq('access_key_id', accessKeyId)
+    .select('id');
+
+  return !error && !!data && data.length > 0;
+}
@@ -0,0 +1,81 @@
+import { getRetryPolicyConfig, RetryPolicyConfig } from './settings-manager';
+import { UpstreamErrorInfo } from './upstream-errors';
+
+// 单个请求的重试预算
+export interface RetryBudget {
+  policy: RetryPolicyConfig;
+  startTime: number;
+  // 已尝试的 key 数
+  attempts: number;
+  // 连续遇到上游过载的次数，用于计算退避时间
+  overloads: number;
+}
+
+/**
+ * 按系统设置中的重试策略创建一个请求的重试预算
+ */
+export async function createRetryBudget(): Promise<RetryBudget> {
+  return {
+    policy: await getRetryPolicyConfig(),
+    startTime: Date.now(),
+    attempts: 0,
+    overloads: 0,
+  };
+}
+
+// 距离截止时间的剩余毫秒数
+function getRemainingMs(budget: RetryBudget): number {
+  return budget.policy.deadline_ms - (Date.now() - budget.startTime);
+}
+
+/**
+ * 预算未用完时记一次尝试并返回 true；尝试次数达到上限或超过截止时间时返回 false
+ * 第一次尝试总是允许的
+ */
+export function takeAttempt(budget: RetryBudget): boolean {
+  if (budget.attempts > 0 && (budget.attempts >= budget.policy.max_attempts || getRemainingMs(budget) <= 0)) {
+    return false;
+  }
+  budget.attempts++;
+  return true;
+}
+
+// 上游过载（503 / UNAVAILABLE），立即换 key 大概率也会失败
+function isOverloaded(errorInfo: UpstreamErrorInfo): boolean {
+  return errorInfo.httpStatus === 503 || errorInfo.status === 'UNAVAILABLE';
+}
+
+/**
+ * 换下一个 key 之前的等待：上游过载时按连续过载次数指数退避（带随机抖动），其他错误立即换 key
+ * 等待时间超过剩余的截止时间时不再等待，由下一次 takeAttempt 判断是否继续
+ * @returns 实际等待的毫秒数
+ */
+export async function backoffBeforeNextKey(budget: RetryBudget, errorInfo: UpstreamErrorInfo): Promise<number> {
+  if (!isOverloaded(errorInfo)) {
+    budget.overloads = 0;
+    return 0;
+  }
+
+  const { backoff_base_ms, backoff_max_ms } = budget.policy;
+  const ceiling = Math.min(backoff_base_ms * 2 ** budget.overloads, backoff_max_ms);
+  budget.overloads++;
+
+  // 一半固定、一半随机，避免大量请求在同一时刻重试
+  const delayMs = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  if (delayMs <= 0 || delayMs >= getRemainingMs(budget)) {
+    return 0;
+  }
+
+  await new Promise((resolve) => setTimeout(resolve, delayMs));
+  return delayMs;
+}
+
+/**
+ * 为一次尝试创建中止信号，到达重试截止时间时中止仍未返回的上游请求
+ * 拿到响应（流式响应为第一个 chunk）后调用 release，之后的传输不再受截止时间限制
+ */
+export function createAttemptSignal(budget: RetryBudget): { signal: AbortSignal; release: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), Math.max(getRemainingMs(budget), 1));
+  return { signal: controller.signal, release: () => clearTimeout(timer) };
+}
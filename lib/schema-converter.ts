@@ -0,0 +1,228 @@
+import { ApiError } from './config';
+
+// Gemini Schema 支持的类型
+const SUPPORTED_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+
+// Gemini Schema 原样保留的字段
+const PASSTHROUGH_KEYWORDS = ['description', 'title', 'minItems', 'maxItems', 'minimum', 'maximum'];
+
+// Gemini 各类型支持的 format
+const SUPPORTED_FORMATS: Record<string, string[]> = {
+  string: ['enum', 'date-time'],
+  number: ['float', 'double'],
+  integer: ['int32', 'int64'],
+};
+
+// 无法用 Gemini Schema 表达的关键字，遇到时直接报错
+const REJECTED_KEYWORDS = ['not', 'if', 'then', 'else', 'dependentSchemas', 'prefixItems', 'contains'];
+
+// 其余关键字（additionalProperties、pattern、default 等）只影响校验，直接丢弃
+
+interface SchemaConversionContext {
+  root: any;
+  refStack: string[];
+}
+
+function fail(path: string, message: string): never {
+  throw new ApiError(400, `Unsupported JSON Schema at ${path}: ${message}`);
+}
+
+// 解析 $ref（仅支持 #、#/$defs/... 和 #/definitions/... 形式的本地引用）
+function resolveRef(ref: string, context: SchemaConversionContext, path: string): any {
+  if (ref === '#') {
+    return context.root;
+  }
+  if (!ref.startsWith('#/')) {
+    fail(path, `only local $ref is supported, got "${ref}"`);
+  }
+
+  let target = context.root;
+  for (const segment of ref.slice(2).split('/')) {
+    target = target?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  if (!target || typeof target !== 'object') {
+    fail(path, `cannot resolve $ref "${ref}"`);
+  }
+  return target;
+}
+
+// 合并 allOf 中的多个 object schema
+function mergeAllOf(schemas: any[], context: SchemaConversionContext, path: string): any {
+  const merged: any = { type: 'object', properties: {}, required: [] };
+  schemas.forEach((item, index) => {
+    const resolved = item?.$ref ? resolveRef(item.$ref, context, `${path}.allOf[${index}]`) : item;
+    if (!resolved?.properties) {
+      fail(`${path}.allOf[${index}]`, 'allOf is only supported for object schemas with properties');
+    }
+    Object.assign(merged.properties, resolved.properties);
+    merged.required.push(...(resolved.required || []));
+    if (resolved.description && !merged.description) {
+      merged.description = resolved.description;
+    }
+  });
+  return merged;
+}
+
+function convertSchemaNode(schema: any, context: SchemaConversionContext, path: string): any {
+  if (schema === true || schema === undefined) {
+    fail(path, 'free-form values are not supported, declare a type');
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    fail(path, 'schema must be an object');
+  }
+
+  for (const keyword of REJECTED_KEYWORDS) {
+    if (schema[keyword] !== undefined) {
+      fail(path, `"${keyword}" is not supported by Gemini`);
+    }
+  }
+
+  if (schema.$ref) {
+    if (context.refStack.includes(schema.$ref)) {
+      fail(path, `recursive $ref "${schema.$ref}" is not supported by Gemini`);
+    }
+    context.refStack.push(schema.$ref);
+    const { $ref, ...siblings } = schema;
+    const resolved = convertSchemaNode({ ...resolveRef($ref, context, path), ...siblings }, context, path);
+    context.refStack.pop();
+    return resolved;
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    const { allOf, ...rest } = schema;
+    const base = allOf.length === 1 ? allOf[0] : mergeAllOf(allOf, context, path);
+    return convertSchemaNode({ ...rest, ...base }, context, path);
+  }
+
+  const result: any = {};
+  for (const keyword of PASSTHROUGH_KEYWORDS) {
+    if (schema[keyword] !== undefined) {
+      result[keyword] = schema[keyword];
+    }
+  }
+  if (schema.nullable === true) {
+    result.nullable = true;
+  }
+
+  // anyOf / oneOf：null 分支转换为 nullable，只剩一个分支时直接展开
+  const variants = schema.anyOf || schema.oneOf;
+  if (Array.isArray(variants)) {
+    const nonNullVariants = variants.filter((variant: any) => variant?.type !== 'null');
+    if (nonNullVariants.length !== variants.length) {
+      result.nullable = true;
+    }
+    if (nonNullVariants.length === 0) {
+      fail(path, 'anyOf must contain at least one non-null schema');
+    }
+    if (nonNullVariants.length === 1) {
+      return { ...convertSchemaNode(nonNullVariants[0], context, path), ...result };
+    }
+    const keyword = schema.anyOf ? 'anyOf' : 'oneOf';
+    result.anyOf = nonNullVariants.map((variant: any, index: number) =>
+      convertSchemaNode(variant, context, `${path}.${keyword}[${index}]`)
+    );
+    return result;
+  }
+
+  // type 可以是数组，例如 ["string", "null"]
+  let type = schema.type;
+  if (Array.isArray(type)) {
+    const nonNullTypes = type.filter((item: string) => item !== 'null');
+    if (nonNullTypes.length !== type.length) {
+      result.nullable = true;
+    }
+    if (nonNullTypes.length > 1) {
+      const { type: _type, ...rest } = schema;
+      return {
+        ...result,
+        anyOf: nonNullTypes.map((item: string) => convertSchemaNode({ ...rest, type: item }, context, path))
+      };
+    }
+    type = nonNullTypes[0];
+  }
+
+  // const 等价于只有一个值的 enum
+  let enumValues = schema.enum;
+  if (schema.const !== undefined) {
+    enumValues = [schema.const];
+  }
+
+  if (!type) {
+    if (schema.properties) {
+      type = 'object';
+    } else if (schema.items) {
+      type = 'array';
+    } else if (enumValues) {
+      type = 'string';
+    } else {
+      fail(path, 'missing "type"');
+    }
+  }
+
+  if (type === 'null') {
+    fail(path, '"null" can only be used together with another type');
+  }
+  if (!SUPPORTED_TYPES.includes(type)) {
+    fail(path, `unknown type "${type}"`);
+  }
+  result.type = type;
+
+  if (enumValues !== undefined) {
+    if (!Array.isArray(enumValues) || enumValues.length === 0) {
+      fail(path, '"enum" must be a non-empty array');
+    }
+    if (enumValues.includes(null)) {
+      result.nullable = true;
+    }
+    const values = enumValues.filter((value: any) => value !== null);
+    if (values.some((value: any) => typeof value !== 'string')) {
+      fail(path, 'Gemini only supports string enum values');
+    }
+    if (type !== 'string') {
+      fail(path, `enum is only supported for string type, got "${type}"`);
+    }
+    result.enum = values;
+    result.format = 'enum';
+  } else if (schema.format && SUPPORTED_FORMATS[type]?.includes(schema.format)) {
+    result.format = schema.format;
+  }
+
+  if (type === 'array') {
+    if (!schema.items || Array.isArray(schema.items)) {
+      fail(path, 'array schema must declare a single "items" schema');
+    }
+    result.items = convertSchemaNode(schema.items, context, `${path}.items`);
+  }
+
+  if (type === 'object') {
+    const properties = schema.properties || {};
+    const propertyNames = Object.keys(properties);
+    if (propertyNames.length === 0) {
+      fail(path, 'object schema must declare at least one property, free-form objects are not supported by Gemini');
+    }
+
+    result.properties = {};
+    for (const name of propertyNames) {
+      result.properties[name] = convertSchemaNode(properties[name], context, `${path}.properties.${name}`);
+    }
+
+    const required = Array.isArray(schema.required)
+      ? schema.required.filter((name: string) => propertyNames.includes(name))
+      : [];
+    if (required.length > 0) {
+      result.required = required;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 将 JSON Schema 转换为 Gemini 使用的 OpenAPI 子集 Schema
+ * @param schema JSON Schema
+ * @param path 在请求体中的位置，用于错误提示
+ * @returns Gemini Schema，无法表达时抛出 400 错误
+ */
+export function convertJsonSchemaToGemini(schema: any, path: string): any {
+  return convertSchemaNode(schema, { root: schema, refStack: [] }, path);
+}
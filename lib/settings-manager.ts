@@ -1,11 +1,48 @@
+import { kv } from '@vercel/kv';
 import { supabase } from './supabaseClient';
 
+// 系统设置缓存：全部设置一次读出，KV 中缓存 SETTINGS_CACHE_TTL 秒，进程内再缓存 SETTINGS_MEMORY_TTL_MS
+// 更新设置时清除，其他实例最多 SETTINGS_MEMORY_TTL_MS 后读到新值
+const SETTINGS_CACHE_KEY = 'system_settings_cache';
+const SETTINGS_CACHE_TTL = 60;
+const SETTINGS_MEMORY_TTL_MS = 5000;
+
+let memorySettings: { expiresAt: number; values: Promise<Record<string, string>> } | null = null;
+
 // 流式传输配置接口
 export interface StreamingConfig {
   enabled: boolean;
   fake_stream_enabled: boolean;
 }
 
+// System Instruction 配置接口
+export interface SystemInstructionConfig {
+  enabled: boolean;
+  legacy_prefix_models: string[];
+}
+
+// Gemini Key 选择策略：轮询 / 最久未使用 / 按权重随机 / 按延迟
+export type KeySelectionStrategy = 'round_robin' | 'least_recently_used' | 'weighted' | 'latency';
+
+export const KEY_SELECTION_STRATEGIES: KeySelectionStrategy[] = ['round_robin', 'least_recently_used', 'weighted', 'latency'];
+
+// 失效 Key 定时复检配置接口
+export interface KeyRevalidationConfig {
+  enabled: boolean;
+  max_consecutive_failures: number;
+}
+
+// 请求重试策略配置接口
+export interface RetryPolicyConfig {
+  // 每个请求最多尝试的 key 数
+  max_attempts: number;
+  // 整个请求的重试截止时间（毫秒），超过后不再换 key
+  deadline_ms: number;
+  // 上游过载（503）时换 key 前的退避时间：从 backoff_base_ms 起每次翻倍，最长 backoff_max_ms
+  backoff_base_ms: number;
+  backoff_max_ms: number;
+}
+
 // 系统设置接口
 export interface SystemSetting {
   id: string;
@@ -19,7 +56,7 @@ export interface SystemSetting {
 /**
  * 获取系统设置
  * @param settingKey 设置键名
- * @returns 设置值（已解析的JSON对象）
+ * @returns 设置值（已解析的JSON对象），未设置时返回 null，由调用方使用默认值
  */
 export async function getSystemSetting<T = any>(settingKey: string): Promise<T | null> {
   try {
@@ -27,7 +64,7 @@ export async function getSystemSetting<T = any>(settingKey: string): Promise<T |
       .from('system_settings')
       .select('setting_value')
       .eq('setting_key', settingKey)
-      .single();
+      .maybeSingle();
 
     if (error) {
       console.error(`Failed to get system setting ${settingKey}:`, error);
@@ -45,6 +82,71 @@ export async function getSystemSetting<T = any>(settingKey: string): Promise<T |
   }
 }
 
+// 从数据库读取全部设置（setting_key -> setting_value）
+async function fetchSettingsFromDb(): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_key, setting_value');
+
+  if (error) {
+    throw error;
+  }
+  return Object.fromEntries((data || []).map((row) => [row.setting_key, row.setting_value]));
+}
+
+async function loadSettings(): Promise<Record<string, string>> {
+  try {
+    const cached = await kv.get<Record<string, string>>(SETTINGS_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+  } catch (cacheError) {
+    console.warn('[SETTINGS] Cache error, falling back to database:', cacheError);
+  }
+
+  const values = await fetchSettingsFromDb();
+  kv.setex(SETTINGS_CACHE_KEY, SETTINGS_CACHE_TTL, values).catch((error) => {
+    console.warn('[SETTINGS] Failed to cache settings:', error);
+  });
+  return values;
+}
+
+/**
+ * 从缓存读取系统设置，请求热路径上使用
+ * @param settingKey 设置键名
+ * @returns 设置值（已解析的JSON对象），未设置或读取失败时返回 null，由调用方使用默认值
+ */
+export async function getCachedSystemSetting<T = any>(settingKey: string): Promise<T | null> {
+  if (!memorySettings || memorySettings.expiresAt <= Date.now()) {
+    const values = loadSettings();
+    memorySettings = { expiresAt: Date.now() + SETTINGS_MEMORY_TTL_MS, values };
+    // 读取失败时不缓存，下次重新读取
+    values.catch(() => {
+      if (memorySettings?.values === values) {
+        memorySettings = null;
+      }
+    });
+  }
+
+  try {
+    const value = (await memorySettings.values)[settingKey];
+    return value === undefined ? null : JSON.parse(value);
+  } catch (error) {
+    console.error(`Error reading cached system setting ${settingKey}:`, error);
+    return null;
+  }
+}
+
+// 清除系统设置缓存，设置更新后调用
+export async function clearSettingsCache() {
+  memorySettings = null;
+  try {
+    await kv.del(SETTINGS_CACHE_KEY);
+  } catch (error) {
+    console.warn('[SETTINGS] Failed to clear settings cache:', error);
+  }
+}
+
 /**
  * 更新系统设置
  * @param settingKey 设置键名
@@ -92,6 +194,7 @@ export async function updateSystemSetting(
     }
 
     console.log(`[SETTINGS] Successfully updated setting: ${settingKey}`);
+    await clearSettingsCache();
     return true;
   } catch (error) {
     console.error(`[SETTINGS] Error updating system setting ${settingKey}:`, error);
@@ -104,7 +207,7 @@ export async function updateSystemSetting(
  * @returns 流式传输配置
  */
 export async function getStreamingConfig(): Promise<StreamingConfig> {
-  const config = await getSystemSetting<StreamingConfig>('streaming_config');
+  const config = await getCachedSystemSetting<StreamingConfig>('streaming_config');
   
   // 返回默认配置如果获取失败
   return config || {
@@ -126,6 +229,126 @@ export async function updateStreamingConfig(config: StreamingConfig): Promise<bo
   );
 }
 
+/**
+ * 获取 System Instruction 配置
+ * @returns System Instruction 配置
+ */
+export async function getSystemInstructionConfig(): Promise<SystemInstructionConfig> {
+  const config = await getCachedSystemSetting<SystemInstructionConfig>('system_instruction_config');
+  
+  // 返回默认配置如果获取失败（Gemma 系列不支持 systemInstruction）
+  return config || {
+    enabled: true,
+    legacy_prefix_models: ['gemma'],
+  };
+}
+
+/**
+ * 更新 System Instruction 配置
+ * @param config 新的 System Instruction 配置
+ * @returns 是否成功
+ */
+export async function updateSystemInstructionConfig(config: SystemInstructionConfig): Promise<boolean> {
+  return updateSystemSetting(
+    'system_instruction_config',
+    config,
+    'System Instruction 配置：enabled-是否使用原生 systemInstruction，legacy_prefix_models-仍使用 "System:" 前缀的模型名前缀列表'
+  );
+}
+
+/**
+ * 判断模型是否应使用原生 systemInstruction
+ * @param model 模型名称
+ * @returns true 使用 systemInstruction，false 使用旧的 "System:" 前缀
+ */
+export async function shouldUseSystemInstruction(model: string): Promise<boolean> {
+  const config = await getSystemInstructionConfig();
+  if (!config.enabled) {
+    return false;
+  }
+  
+  const modelName = (model || '').replace(/^models\//, '');
+  return !config.legacy_prefix_models.some(prefix => prefix && modelName.startsWith(prefix));
+}
+
+/**
+ * 获取 Gemini Key 选择策略
+ * @returns 选择策略，未配置或配置无效时默认轮询
+ */
+export async function getKeySelectionStrategy(): Promise<KeySelectionStrategy> {
+  const strategy = await getCachedSystemSetting<KeySelectionStrategy>('key_selection_strategy');
+  return strategy && KEY_SELECTION_STRATEGIES.includes(strategy) ? strategy : 'round_robin';
+}
+
+/**
+ * 更新 Gemini Key 选择策略
+ * @param strategy 新的选择策略
+ * @returns 是否成功
+ */
+export async function updateKeySelectionStrategy(strategy: KeySelectionStrategy): Promise<boolean> {
+  return updateSystemSetting(
+    'key_selection_strategy',
+    strategy,
+    'Gemini Key 选择策略：round_robin-全局轮询，least_recently_used-最久未使用优先，weighted-按权重随机，latency-按平均延迟'
+  );
+}
+
+/**
+ * 获取失效 Key 定时复检配置
+ * @returns 复检配置
+ */
+export async function getKeyRevalidationConfig(): Promise<KeyRevalidationConfig> {
+  const config = await getSystemSetting<KeyRevalidationConfig>('key_revalidation_config');
+  
+  // 返回默认配置如果获取失败
+  return config || {
+    enabled: true,
+    max_consecutive_failures: 5,
+  };
+}
+
+/**
+ * 更新失效 Key 定时复检配置
+ * @param config 新的复检配置
+ * @returns 是否成功
+ */
+export async function updateKeyRevalidationConfig(config: KeyRevalidationConfig): Promise<boolean> {
+  return updateSystemSetting(
+    'key_revalidation_config',
+    config,
+    '失效 Key 定时复检配置：enabled-是否定时复检失效的 Key，max_consecutive_failures-连续复检失败多少次后永久停用'
+  );
+}
+
+/**
+ * 获取请求重试策略配置
+ * @returns 重试策略配置
+ */
+export async function getRetryPolicyConfig(): Promise<RetryPolicyConfig> {
+  const config = await getCachedSystemSetting<RetryPolicyConfig>('retry_policy_config');
+  
+  // 返回默认配置如果获取失败
+  return config || {
+    max_attempts: 5,
+    deadline_ms: 30000,
+    backoff_base_ms: 500,
+    backoff_max_ms: 8000,
+  };
+}
+
+/**
+ * 更新请求重试策略配置
+ * @param config 新的重试策略配置
+ * @returns 是否成功
+ */
+export async function updateRetryPolicyConfig(config: RetryPolicyConfig): Promise<boolean> {
+  return updateSystemSetting(
+    'retry_policy_config',
+    config,
+    '请求重试策略配置：max_attempts-每个请求最多尝试的 Key 数，deadline_ms-重试截止时间（毫秒），backoff_base_ms / backoff_max_ms-上游过载时换 Key 前的退避时间范围（毫秒）'
+  );
+}
+
 /**
  * 获取所有系统设置
  * @returns 所有系统设置列表
@@ -154,28 +377,8 @@ export async function getAllSystemSettings(): Promise<SystemSetting[]> {
  * @returns 是否启用伪装信息功能
  */
 export async function getDisguiseEnabled(): Promise<boolean> {
-  try {
-    console.log('[DISGUISE] Checking disguise enabled setting...');
-    const { data, error } = await supabase
-      .from('system_settings')
-      .select('setting_value')
-      .eq('setting_key', 'disguise_enabled')
-      .single();
-
-    if (error) {
-      console.error('[DISGUISE] 获取伪装信息设置失败:', error);
-      console.log('[DISGUISE] Using default value: true');
-      return true; // 默认启用
-    }
-
-    const enabled = data?.setting_value === 'true';
-    console.log(`[DISGUISE] Retrieved setting value: ${data?.setting_value}, enabled: ${enabled}`);
-    return enabled;
-  } catch (error) {
-    console.error('[DISGUISE] 获取伪装信息设置异常:', error);
-    console.log('[DISGUISE] Using default value: true');
-    return true; // 默认启用
-  }
+  const enabled = await getCachedSystemSetting<boolean>('disguise_enabled');
+  return enabled === null ? true : enabled === true; // 默认启用
 }
 
 /**
@@ -204,6 +407,7 @@ export async function updateDisguiseEnabled(enabled: boolean): Promise<boolean>
     }
 
     console.log('[DISGUISE] Successfully updated disguise enabled setting');
+    await clearSettingsCache();
     return true;
   } catch (error) {
     console.error('[DISGUISE] 更新伪装信息设置异常:', error);
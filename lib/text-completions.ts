@@ -0,0 +1,315 @@
+import { ApiError, SYSTEM_FINGERPRINT } from './config';
+import { convertOpenAItoGemini, convertUsageMetadata, extractCandidateOutput, mapFinishReason, CompletionMeta } from './converter';
+
+// 旧版 completions 接口 logprobs 参数的上限
+const MAX_LOGPROBS = 5;
+
+// Gemini 单次请求最多返回的候选数（candidateCount 上限）
+const MAX_CANDIDATES = 8;
+
+// 引导聊天模型续写文本，而不是回答问题
+const CONTINUE_INSTRUCTION = 'Continue the text provided by the user. Reply with the continuation only, do not repeat the given text or add any explanation.';
+
+// 有 suffix 时改为填空：补全 [INSERT] 处的内容
+const INSERT_MARKER = '[INSERT]';
+const INSERT_INSTRUCTION = `Fill in the text at the position marked ${INSERT_MARKER} so that it connects naturally with the text before and after it. Reply with the inserted text only, do not repeat the surrounding text or add any explanation.`;
+
+// 解析后的 completions 请求
+export interface TextCompletionRequest {
+  prompts: string[];
+  suffix?: string;
+  echo: boolean;
+  n: number;
+  bestOf: number;
+  logprobs?: number;
+}
+
+/**
+ * 校验并解析旧版 completions 请求参数
+ * 只支持文本 prompt，token 数组形式的 prompt 无法转换给 Gemini
+ */
+export function parseTextCompletionRequest(body: any): TextCompletionRequest {
+  const { prompt, suffix, echo, n, best_of: bestOf, logprobs, stream } = body || {};
+
+  const prompts = Array.isArray(prompt) ? prompt : [prompt];
+  if (prompts.length === 0) {
+    throw new ApiError(400, "'prompt' must not be empty", 'prompt');
+  }
+  prompts.forEach((item: any, index: number) => {
+    const path = Array.isArray(prompt) ? `prompt[${index}]` : 'prompt';
+    if (typeof item !== 'string') {
+      throw new ApiError(400, `Invalid '${path}': only strings are supported, token arrays are not`, 'prompt');
+    }
+    if (!item) {
+      throw new ApiError(400, `Invalid '${path}': string must not be empty`, 'prompt');
+    }
+  });
+
+  if (suffix !== undefined && suffix !== null && typeof suffix !== 'string') {
+    throw new ApiError(400, "Invalid type for 'suffix': expected a string", 'suffix');
+  }
+
+  const choiceCount = n ?? 1;
+  if (!Number.isInteger(choiceCount) || choiceCount < 1 || choiceCount > MAX_CANDIDATES) {
+    throw new ApiError(400, `Invalid 'n': expected an integer between 1 and ${MAX_CANDIDATES}`, 'n');
+  }
+
+  const candidateCount = bestOf ?? choiceCount;
+  if (!Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > MAX_CANDIDATES) {
+    throw new ApiError(400, `Invalid 'best_of': expected an integer between 1 and ${MAX_CANDIDATES}`, 'best_of');
+  }
+  if (candidateCount < choiceCount) {
+    throw new ApiError(400, "Invalid 'best_of': must be greater than or equal to 'n'", 'best_of');
+  }
+  if (stream && candidateCount > choiceCount) {
+    throw new ApiError(400, "'best_of' greater than 'n' is not supported when streaming", 'best_of');
+  }
+  if (stream && prompts.length > 1) {
+    throw new ApiError(400, 'Streaming is only supported with a single prompt', 'prompt');
+  }
+
+  if (logprobs !== undefined && logprobs !== null && (!Number.isInteger(logprobs) || logprobs < 0 || logprobs > MAX_LOGPROBS)) {
+    throw new ApiError(400, `Invalid 'logprobs': expected an integer between 0 and ${MAX_LOGPROBS}`, 'logprobs');
+  }
+
+  return {
+    prompts,
+    suffix: suffix || undefined,
+    echo: echo === true,
+    n: choiceCount,
+    bestOf: candidateCount,
+    logprobs: logprobs ?? undefined,
+  };
+}
+
+// 为单个 prompt 构造单轮 Gemini 请求，采样参数沿用聊天接口的转换逻辑
+// 伪装信息会混进续写的原文，这里不添加
+export async function convertPromptToGemini(body: any, prompt: string, request: TextCompletionRequest): Promise<any> {
+  const messages = request.suffix
+    ? [
+        { role: 'system', content: INSERT_INSTRUCTION },
+        { role: 'user', content: `${prompt}${INSERT_MARKER}${request.suffix}` },
+      ]
+    : [
+        { role: 'system', content: CONTINUE_INSTRUCTION },
+        { role: 'user', content: prompt },
+      ];
+
+  const geminiRequest = await convertOpenAItoGemini({
+    model: body.model,
+    messages,
+    max_tokens: body.max_tokens,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    presence_penalty: body.presence_penalty,
+    frequency_penalty: body.frequency_penalty,
+    seed: body.seed,
+    stop: body.stop,
+    n: request.bestOf,
+  }, { disguise: false });
+
+  // best_of 需要按对数概率挑选候选，同样需要 Gemini 返回 logprobs
+  if (request.logprobs !== undefined || request.bestOf > request.n) {
+    geminiRequest.generationConfig.responseLogprobs = true;
+    if (request.logprobs) {
+      geminiRequest.generationConfig.logprobs = request.logprobs;
+    }
+  }
+
+  return geminiRequest;
+}
+
+export function createTextCompletionMeta(): CompletionMeta {
+  return {
+    id: `cmpl-${crypto.randomUUID().replace(/-/g, '')}`,
+    created: Math.floor(Date.now() / 1000)
+  };
+}
+
+/**
+ * 将 Gemini logprobsResult 转换为旧版 completions 的 logprobs 格式
+ * Gemini 不返回 prompt 的 logprobs，echo 时只包含生成部分，text_offset 从 prompt 之后开始计算
+ */
+function convertLogprobs(logprobsResult: any, topCount: number, textOffset: number) {
+  const chosen: any[] = logprobsResult?.chosenCandidates || [];
+  const topCandidates: any[] = logprobsResult?.topCandidates || [];
+
+  const logprobs = {
+    tokens: [] as string[],
+    token_logprobs: [] as number[],
+    top_logprobs: topCount > 0 ? [] as Record<string, number>[] : null,
+    text_offset: [] as number[],
+  };
+
+  let offset = textOffset;
+  chosen.forEach((candidate: any, position: number) => {
+    const token = candidate.token || '';
+    logprobs.tokens.push(token);
+    logprobs.token_logprobs.push(candidate.logProbability);
+    logprobs.text_offset.push(offset);
+    offset += token.length;
+
+    if (logprobs.top_logprobs) {
+      const top: Record<string, number> = {};
+      for (const item of (topCandidates[position]?.candidates || []).slice(0, topCount)) {
+        top[item.token] = item.logProbability;
+      }
+      logprobs.top_logprobs.push(top);
+    }
+  });
+
+  return logprobs;
+}
+
+// best_of 大于 n 时按平均对数概率挑出最好的 n 个候选
+function selectBestCandidates(candidates: any[], n: number): any[] {
+  if (candidates.length <= n) {
+    return candidates;
+  }
+  return [...candidates]
+    .sort((a, b) => (b.avgLogprobs ?? -Infinity) - (a.avgLogprobs ?? -Infinity))
+    .slice(0, n);
+}
+
+// 将单个 prompt 的 Gemini 响应转换为 choices，index 按 prompt 顺序连续编号
+function convertResponseToTextChoices(geminiResponse: any, prompt: string, promptIndex: number, request: TextCompletionRequest): any[] {
+  const candidates: any[] = geminiResponse?.candidates?.length ? geminiResponse.candidates : [{}];
+
+  return selectBestCandidates(candidates, request.n).map((candidate: any, position: number) => {
+    const { text } = extractCandidateOutput(candidate);
+    const prefix = request.echo ? prompt : '';
+
+    return {
+      text: prefix + text,
+      index: promptIndex * request.n + position,
+      logprobs: request.logprobs !== undefined
+        ? convertLogprobs(candidate.logprobsResult, request.logprobs, prefix.length)
+        : null,
+      finish_reason: mapFinishReason(candidate.finishReason, false),
+    };
+  });
+}
+
+// 多个 prompt 分别请求，用量按字段累加
+function sumUsageMetadata(geminiResponses: any[]): any {
+  const fields = ['promptTokenCount', 'candidatesTokenCount', 'thoughtsTokenCount', 'cachedContentTokenCount', 'totalTokenCount'];
+  const total: Record<string, number> = {};
+  for (const field of fields) {
+    total[field] = geminiResponses.reduce((sum, response) => sum + (response?.usageMetadata?.[field] || 0), 0);
+  }
+  return total;
+}
+
+// 将每个 prompt 的 Gemini 响应（与 prompts 顺序一致）合并为旧版 completions 格式的响应
+export function createTextCompletionResponse(geminiResponses: any[], request: TextCompletionRequest, model: string, meta: CompletionMeta) {
+  return {
+    id: meta.id,
+    object: 'text_completion',
+    created: meta.created,
+    model,
+    system_fingerprint: SYSTEM_FINGERPRINT,
+    choices: geminiResponses.flatMap((response, promptIndex) =>
+      convertResponseToTextChoices(response, request.prompts[promptIndex], promptIndex, request)
+    ),
+    usage: convertUsageMetadata(sumUsageMetadata(geminiResponses)),
+  };
+}
+
+// 流式转换过程中需要跨 chunk 保留的状态
+export interface TextCompletionStreamState {
+  meta: CompletionMeta;
+  // 每个 choice 已输出的字符数，用于计算 text_offset
+  textOffsets: Record<number, number>;
+  // 每个 choice 收到的 Gemini finishReason
+  finishReasons: Record<number, string>;
+  // 最近一次收到的 usageMetadata（Gemini 在每个 chunk 中给出累计值）
+  usageMetadata: any;
+}
+
+export function createTextCompletionStreamState(meta: CompletionMeta, request: TextCompletionRequest): TextCompletionStreamState {
+  const textOffsets: Record<number, number> = {};
+  for (let index = 0; index < request.n; index++) {
+    textOffsets[index] = request.echo ? request.prompts[0].length : 0;
+  }
+  return { meta, textOffsets, finishReasons: {}, usageMetadata: null };
+}
+
+// 流式 chunk 的公共字段
+function createTextChunk(model: string, meta: CompletionMeta, choices: any[]) {
+  return {
+    id: meta.id,
+    object: 'text_completion',
+    created: meta.created,
+    model,
+    system_fingerprint: SYSTEM_FINGERPRINT,
+    choices,
+  };
+}
+
+// echo 为 true 时，流式响应先原样返回 prompt
+export function createEchoChunk(model: string, state: TextCompletionStreamState, request: TextCompletionRequest) {
+  return createTextChunk(model, state.meta, Object.keys(state.textOffsets).map((index) => ({
+    text: request.prompts[0],
+    index: Number(index),
+    logprobs: null,
+    finish_reason: null,
+  })));
+}
+
+// Gemini 流式响应转换为旧版 completions 的 SSE chunk，没有可发送的内容时返回 null
+export function convertGeminiStreamToTextCompletion(chunk: any, model: string, state: TextCompletionStreamState, request: TextCompletionRequest) {
+  const choices: any[] = [];
+
+  if (chunk?.usageMetadata) {
+    state.usageMetadata = chunk.usageMetadata;
+  }
+
+  (chunk?.candidates || []).forEach((candidate: any, position: number) => {
+    const index = candidate.index ?? position;
+    const { text } = extractCandidateOutput(candidate);
+    if (candidate.finishReason) {
+      state.finishReasons[index] = candidate.finishReason;
+    }
+    if (!text) {
+      return;
+    }
+
+    const textOffset = state.textOffsets[index] || 0;
+    state.textOffsets[index] = textOffset + text.length;
+    choices.push({
+      text,
+      index,
+      logprobs: request.logprobs !== undefined
+        ? convertLogprobs(candidate.logprobsResult, request.logprobs, textOffset)
+        : null,
+      finish_reason: null,
+    });
+  });
+
+  if (choices.length === 0) {
+    return null;
+  }
+
+  return createTextChunk(model, state.meta, choices);
+}
+
+// 创建流式响应的结束 chunk（每个 choice 一条 finish_reason）
+export function createTextCompletionFinishChunk(model: string, state: TextCompletionStreamState) {
+  return createTextChunk(model, state.meta, Object.keys(state.textOffsets).map((key) => {
+    const index = Number(key);
+    return {
+      text: '',
+      index,
+      logprobs: null,
+      finish_reason: mapFinishReason(state.finishReasons[index], false),
+    };
+  }));
+}
+
+// 创建流式响应的用量 chunk（stream_options.include_usage 为 true 时在结束前发送）
+export function createTextCompletionUsageChunk(model: string, state: TextCompletionStreamState) {
+  return {
+    ...createTextChunk(model, state.meta, []),
+    usage: convertUsageMetadata(state.usageMetadata),
+  };
+}
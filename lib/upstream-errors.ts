@@ -0,0 +1,271 @@
+import { ApiError } from './config';
+
+/**
+ * 上游错误分类，决定是否换 key 重试、是否标记 key 失效或进入冷却，以及记录和返回的状态码
+ * - key_invalid：key 无效、过期或被封禁，标记失效并换 key
+ * - quota：429 限流 / 额度耗尽，key 在该模型上冷却并换 key
+ * - model_not_found：模型不存在，换 key 也不会成功
+ * - bad_request：请求参数有误（INVALID_ARGUMENT、FAILED_PRECONDITION 等）
+ * - safety：内容被安全策略拦截
+ * - permission：与 key 无关的权限问题
+ * - upstream：上游故障（5xx），换 key 重试
+ * - network：网络错误或超时，换 key 重试
+ * - client：本服务主动抛出的 ApiError，原样返回
+ * - unknown：无法识别，按上游故障处理
+ */
+export type UpstreamErrorCategory =
+  | 'key_invalid'
+  | 'quota'
+  | 'model_not_found'
+  | 'bad_request'
+  | 'safety'
+  | 'permission'
+  | 'upstream'
+  | 'network'
+  | 'client'
+  | 'unknown';
+
+export interface UpstreamErrorInfo {
+  category: UpstreamErrorCategory;
+  // 上游 HTTP 状态码，网络错误等没有响应时为 null
+  httpStatus: number | null;
+  // google.rpc 状态，例如 RESOURCE_EXHAUSTED、PERMISSION_DENIED、INVALID_ARGUMENT
+  status: string | null;
+  // ErrorInfo.reason，例如 API_KEY_INVALID
+  reason: string | null;
+  message: string;
+  // RetryInfo.retryDelay 或错误信息中给出的重试等待时间（毫秒）
+  retryDelayMs: number | null;
+  // 是否为每日额度耗尽
+  isDailyQuota: boolean;
+  // 是否应该换 key 重试
+  retryable: boolean;
+  // 是否应该把 key 标记为失效
+  invalidatesKey: boolean;
+  // 写入调用日志的状态码
+  statusCode: number;
+}
+
+// 各分类写入日志的状态码，以及是否换 key 重试
+const CATEGORY_BEHAVIOR: Record<UpstreamErrorCategory, { statusCode: number; retryable: boolean }> = {
+  key_invalid: { statusCode: 401, retryable: true },
+  quota: { statusCode: 429, retryable: true },
+  model_not_found: { statusCode: 404, retryable: false },
+  bad_request: { statusCode: 400, retryable: false },
+  safety: { statusCode: 400, retryable: false },
+  permission: { statusCode: 403, retryable: false },
+  upstream: { statusCode: 503, retryable: true },
+  network: { statusCode: 502, retryable: true },
+  client: { statusCode: 500, retryable: false },
+  unknown: { statusCode: 500, retryable: true },
+};
+
+// 错误响应中没有 status 字段时，按 HTTP 状态码推断 google.rpc 状态
+const HTTP_STATUS_TO_RPC_STATUS: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
+  504: 'DEADLINE_EXCEEDED',
+};
+
+// 表示 key 本身不可用的 ErrorInfo.reason
+const KEY_INVALID_REASONS = [
+  'API_KEY_INVALID',
+  'API_KEY_EXPIRED',
+  'API_KEY_SERVICE_BLOCKED',
+  'API_KEY_HTTP_REFERRER_BLOCKED',
+  'API_KEY_IP_ADDRESS_BLOCKED',
+  'CONSUMER_SUSPENDED',
+  'SERVICE_DISABLED',
+];
+
+const NETWORK_ERROR_PATTERN = /fetch failed|network|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|timed? ?out|aborted/i;
+const SAFETY_ERROR_PATTERN = /blocked due to|SAFETY|PROHIBITED_CONTENT|BLOCKLIST|SPII|RECITATION/;
+
+/**
+ * 直接调用 REST API（不经过 SDK）时上游返回的错误
+ * 保留 HTTP 状态码、google.rpc 状态和 details，错误信息格式与 SDK 一致
+ */
+export class GeminiUpstreamError extends Error {
+  public status: number;
+  public statusText: string;
+  public errorStatus: string | null;
+  public errorDetails?: any[];
+
+  constructor(status: number, statusText: string, body: string | any) {
+    let payload: any = body;
+    if (typeof body === 'string') {
+      try {
+        payload = JSON.parse(body);
+      } catch (error) {
+        // 不是 JSON，直接使用原始内容
+        payload = null;
+      }
+    }
+    const upstream = payload?.error;
+    const detail = upstream?.message || (typeof body === 'string' && body) || 'Upstream request failed';
+    super(`[${status} ${statusText}] ${detail}`);
+    this.status = status;
+    this.statusText = statusText;
+    this.errorStatus = upstream?.status || null;
+    this.errorDetails = Array.isArray(upstream?.details) ? upstream.details : undefined;
+    this.name = 'GeminiUpstreamError';
+  }
+}
+
+function getErrorDetails(error: any): any[] {
+  return Array.isArray(error?.errorDetails) ? error.errorDetails : [];
+}
+
+function findDetail(details: any[], type: string): any {
+  return details.find((detail) => String(detail?.['@type'] || '').endsWith(type));
+}
+
+// HTTP 状态码：SDK 和 GeminiUpstreamError 放在 status 上，其他错误从 "[429 Too Many Requests]" 形式的信息中解析
+function getHttpStatus(error: any, message: string): number | null {
+  if (typeof error?.status === 'number') {
+    return error.status;
+  }
+  const match = message.match(/\[(\d{3})(?: [^\]]*)?\]/);
+  return match ? Number(match[1]) : null;
+}
+
+// 解析重试等待时间，例如 RetryInfo.retryDelay = "37s" 或错误信息中的 "Please retry in 37.2s"
+function getRetryDelayMs(details: any[], message: string): number | null {
+  const delay = findDetail(details, 'RetryInfo')?.retryDelay;
+  if (typeof delay === 'string' && /^\d+(\.\d+)?s$/.test(delay)) {
+    return Math.ceil(parseFloat(delay) * 1000);
+  }
+
+  const match = message.match(/retry in (\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+}
+
+// ErrorInfo.reason；旧格式的错误信息只包含文本时按关键字推断
+function getReason(details: any[], message: string): string | null {
+  const reason = findDetail(details, 'ErrorInfo')?.reason;
+  if (reason) {
+    return reason;
+  }
+  if (message.includes('API_KEY_INVALID') || message.includes('API key not valid') || message.includes('Invalid API key')) {
+    return 'API_KEY_INVALID';
+  }
+  if (message.includes('API key expired')) {
+    return 'API_KEY_EXPIRED';
+  }
+  return null;
+}
+
+// 是否为每日额度耗尽（QuotaFailure 中的 quotaId 形如 GenerateRequestsPerDayPerProjectPerModel-FreeTier）
+function isDailyQuota(details: any[], message: string): boolean {
+  const violations: any[] = findDetail(details, 'QuotaFailure')?.violations || [];
+  return violations.some((violation) => String(violation?.quotaId || '').includes('PerDay')) || message.includes('PerDay');
+}
+
+function getCategory(httpStatus: number | null, status: string | null, reason: string | null, message: string, error: any): UpstreamErrorCategory {
+  if (reason && KEY_INVALID_REASONS.includes(reason)) {
+    return 'key_invalid';
+  }
+
+  if (httpStatus === 429 || status === 'RESOURCE_EXHAUSTED') {
+    return 'quota';
+  }
+  if (httpStatus === 404 || status === 'NOT_FOUND') {
+    return 'model_not_found';
+  }
+  if (httpStatus === 401 || httpStatus === 403 || status === 'UNAUTHENTICATED' || status === 'PERMISSION_DENIED') {
+    return /API.?key/i.test(message) ? 'key_invalid' : 'permission';
+  }
+  if (httpStatus !== null && httpStatus >= 500) {
+    return 'upstream';
+  }
+  if (httpStatus !== null && httpStatus >= 400) {
+    return 'bad_request';
+  }
+
+  // 没有 HTTP 状态码：SDK 内部的响应错误（内容被拦截）或网络错误
+  if (error?.name === 'GoogleGenerativeAIResponseError' || SAFETY_ERROR_PATTERN.test(message)) {
+    return 'safety';
+  }
+  if (error?.name === 'AbortError' || error?.name === 'TimeoutError' || NETWORK_ERROR_PATTERN.test(message)) {
+    return 'network';
+  }
+  if (message.includes('quota')) {
+    return 'quota';
+  }
+  return 'unknown';
+}
+
+/**
+ * 解析上游错误（SDK 的 GoogleGenerativeAIFetchError、GeminiUpstreamError、网络错误等）
+ * 优先使用结构化的 HTTP 状态码、google.rpc 状态和 details，只有缺失时才根据错误信息推断
+ */
+export function classifyUpstreamError(error: any): UpstreamErrorInfo {
+  const message = error?.message || error?.toString() || '';
+
+  if (error instanceof ApiError) {
+    return {
+      category: 'client',
+      httpStatus: null,
+      status: null,
+      reason: null,
+      message,
+      retryDelayMs: null,
+      isDailyQuota: false,
+      retryable: false,
+      invalidatesKey: false,
+      statusCode: error.statusCode,
+    };
+  }
+
+  const details = getErrorDetails(error);
+  const httpStatus = getHttpStatus(error, message);
+  const status = error?.errorStatus || (httpStatus !== null ? HTTP_STATUS_TO_RPC_STATUS[httpStatus] || null : null);
+  const reason = getReason(details, message);
+  const category = getCategory(httpStatus, status, reason, message, error);
+  const behavior = CATEGORY_BEHAVIOR[category];
+
+  return {
+    category,
+    httpStatus,
+    status,
+    reason,
+    message,
+    retryDelayMs: getRetryDelayMs(details, message),
+    isDailyQuota: category === 'quota' && isDailyQuota(details, message),
+    retryable: behavior.retryable,
+    invalidatesKey: category === 'key_invalid',
+    statusCode: category === 'upstream' && httpStatus !== null ? httpStatus : behavior.statusCode,
+  };
+}
+
+/**
+ * 换 key 重试结束后返回给客户端的错误
+ * 不可重试的错误直接反映请求本身的问题；所有 key 都失败时按最后一个错误的分类汇总
+ */
+export function createFinalError(lastError: any, triedCount: number): ApiError {
+  const info = classifyUpstreamError(lastError);
+
+  switch (info.category) {
+    case 'client':
+      return lastError as ApiError;
+    case 'quota':
+      return new ApiError(429, 'All API keys have exceeded quota limits');
+    case 'key_invalid':
+      return new ApiError(401, 'All API keys are invalid');
+    case 'model_not_found':
+      return new ApiError(404, info.message, 'model', 'model_not_found');
+    case 'bad_request':
+      return new ApiError(400, info.message);
+    case 'safety':
+      return new ApiError(400, info.message, undefined, 'content_filter');
+    case 'permission':
+      return new ApiError(403, info.message, undefined, 'permission_denied');
+    default:
+      return new ApiError(503, `All ${triedCount} API keys failed. Last error: ${info.message}`);
+  }
+}
@@ -2,6 +2,15 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  async rewrites() {
+    return [
+      // Gemini 原生协议入口：/v1beta/models/{model}:generateContent 等
+      {
+        source: '/v1beta/:path*',
+        destination: '/api/v1beta/:path*',
+      },
+    ]
+  },
 }
 
 module.exports = nextConfig
\ No newline at end of file
@@ -25,6 +25,8 @@ interface AccessKey {
   created_at: string;
   is_active: boolean;
   request_count: number;
+  count_tokens_count: number;
+  total_tokens: number;
 }
 
 export default function AccessKeysPage() {
@@ -375,6 +377,10 @@ export default function AccessKeysPage() {
                                     <Activity className="w-3 h-3 text-blue-500 mr-1" />
                                     {key.request_count || 0}次
                                   </span>
+                                  {key.count_tokens_count > 0 && (
+                                    <span className="text-gray-400">计数 {key.count_tokens_count}次</span>
+                                  )}
+                                  <span>{(key.total_tokens || 0).toLocaleString()} tokens</span>
                                 </div>
                               </div>
                               <button
@@ -403,6 +409,7 @@ export default function AccessKeysPage() {
                           <th className="px-4 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">调用密钥</th>
                           <th className="px-4 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">状态</th>
                           <th className="px-4 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">调用次数</th>
+                          <th className="px-4 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Token 用量</th>
                           <th className="px-4 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider hidden lg:table-cell">创建时间</th>
                           <th className="px-4 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">操作</th>
                         </tr>
@@ -460,8 +467,14 @@ export default function AccessKeysPage() {
                               <div className="flex items-center space-x-1">
                                 <Activity className="w-3 h-3 sm:w-4 sm:h-4 text-blue-500" />
                                 <span>{key.request_count || 0}</span>
+                                {key.count_tokens_count > 0 && (
+                                  <span className="text-xs text-gray-400" title="token 统计请求，不计入调用次数">(+{key.count_tokens_count} 计数)</span>
+                                )}
                               </div>
                             </td>
+                            <td className="px-4 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-xs sm:text-sm text-gray-900">
+                              {(key.total_tokens || 0).toLocaleString()}
+                            </td>
                             <td className="px-4 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-xs sm:text-sm text-gray-900 hidden lg:table-cell">
                               <div className="flex items-center space-x-1">
                                 <Clock className="w-3 h-3 sm:w-4 sm:h-4 text-gray-400" />
@@ -17,23 +17,55 @@ import {
   Download,
   Settings,
   Play,
-  Loader
+  Loader,
+  Clock
 } from 'lucide-react';
 
+// 限流冷却（只针对单个模型）
+interface KeyCooldown {
+  model: string;
+  until: number;
+  reason: 'retry_after' | 'daily_quota' | 'backoff';
+}
+
+const COOLDOWN_REASON_LABELS: Record<KeyCooldown['reason'], string> = {
+  retry_after: '按上游提示',
+  daily_quota: '每日额度耗尽',
+  backoff: '指数退避',
+};
+
+// 剩余冷却时间，例如 2小时3分、3分12秒
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}小时${minutes}分`;
+  if (minutes > 0) return `${minutes}分${seconds % 60}秒`;
+  return `${seconds}秒`;
+}
+
 interface GeminiKey {
   id: number;
   api_key: string;
   key_suffix: string;
   request_count: number;
+  weight: number;
   is_active: boolean;
   is_valid: boolean;
+  consecutive_failures: number;
+  last_checked_at: string | null;
+  retired_at: string | null;
   created_at: string;
   last_used_at: string | null;
+  cooldowns?: KeyCooldown[];
   stats?: {
     totalCalls: number;
     successCalls: number;
     failedCalls: number;
     successRate: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
   };
 }
 
@@ -52,12 +84,19 @@ export default function GeminiKeysManagement() {
   const [resetting, setResetting] = useState(() => false);
   const [statsMode, setStatsMode] = useState<'all' | 'today'>('all');
   const [showStatsTooltip, setShowStatsTooltip] = useState(() => false);
+  const [now, setNow] = useState(() => Date.now());
 
   useEffect(() => {
     setIsLoaded(true);
     fetchKeys();
   }, []);
 
+  // 每秒刷新一次，更新冷却倒计时
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   useEffect(() => {
     if (isLoaded) {
       fetchKeys();
@@ -138,6 +177,33 @@ export default function GeminiKeysManagement() {
     }
   };
 
+  // 修改权重（weighted 选择策略使用），输入框失焦时保存
+  const updateKeyWeight = async (id: number, value: string, currentWeight: number) => {
+    const weight = Number(value);
+    if (weight === currentWeight) return;
+    if (!Number.isInteger(weight) || weight < 0) {
+      setError('权重必须是非负整数');
+      await fetchKeys();
+      return;
+    }
+    
+    try {
+      const response = await fetch('/api/admin/gemini-keys', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, weight })
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to update key weight');
+      }
+      
+      await fetchKeys();
+    } catch (error) {
+      setError('更新密钥权重失败');
+    }
+  };
+
   const deleteKey = async (id: number) => {
     if (!confirm('确定要删除这个密钥吗？')) return;
     
@@ -158,6 +224,45 @@ export default function GeminiKeysManagement() {
     }
   };
 
+  // 冷却中的模型及剩余时间
+  const renderCooldowns = (key: GeminiKey) => {
+    const activeCooldowns = (key.cooldowns || []).filter(cooldown => cooldown.until > now);
+    if (activeCooldowns.length === 0) return null;
+    
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {activeCooldowns.map(cooldown => (
+          <span
+            key={cooldown.model}
+            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+            title={`${COOLDOWN_REASON_LABELS[cooldown.reason]}，${new Date(cooldown.until).toLocaleString('zh-CN')} 恢复`}
+          >
+            <Clock className="w-3 h-3 mr-1" />
+            {cooldown.model} 冷却中 · 剩余 {formatRemaining(cooldown.until - now)}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  // 失效 Key 的定时复检状态
+  const renderRevalidation = (key: GeminiKey) => {
+    if (key.retired_at) {
+      return (
+        <div className="text-xs text-red-600 mt-1">
+          已永久停用：连续 {key.consecutive_failures} 次复检失败（{new Date(key.retired_at).toLocaleString('zh-CN')}），重新启用或一键测试通过后恢复复检
+        </div>
+      );
+    }
+    if (key.is_valid || !key.last_checked_at) return null;
+    
+    return (
+      <div className="text-xs text-gray-500 mt-1">
+        失效，等待定时复检：已连续失败 {key.consecutive_failures} 次，最近复检 {new Date(key.last_checked_at).toLocaleString('zh-CN')}
+      </div>
+    );
+  };
+
   const toggleKeyVisibility = (keyId: number) => {
     const newVisibleKeys = new Set(visibleKeys);
     if (newVisibleKeys.has(keyId)) {
@@ -520,6 +625,18 @@ AIzaxxxx`}
                                 <Activity className="w-3 h-3 text-blue-500" />
                                 <span className="text-xs text-gray-600">{key.request_count}次</span>
                               </div>
+                              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                                <span>权重</span>
+                                <input
+                                  key={`${key.id}-${key.weight}`}
+                                  type="number"
+                                  min={0}
+                                  step={1}
+                                  defaultValue={key.weight}
+                                  onBlur={(e) => updateKeyWeight(key.id, e.target.value, key.weight)}
+                                  className="w-12 px-1 py-0.5 border border-gray-300 rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                />
+                              </label>
                             </div>
                             <div className="flex items-center space-x-2 mb-2">
                               <code className="text-xs font-mono bg-gray-100 px-2 py-1 rounded border truncate flex-1">
@@ -544,6 +661,9 @@ AIzaxxxx`}
                                 minute: '2-digit' 
                               })}
                             </div>
+                            {renderCooldowns(key)}
+                          {renderRevalidation(key)}
+                            {renderRevalidation(key)}
                           </div>
                           <div className="flex flex-col space-y-1 ml-2">
                             <button
@@ -583,6 +703,10 @@ AIzaxxxx`}
                               <div className="text-xs text-purple-600 font-medium">成功率</div>
                               <div className="text-sm font-bold text-purple-800">{key.stats.successRate}%</div>
                             </div>
+                            <div className="col-span-2 bg-amber-50 rounded-lg px-2 py-1" title={`输入 ${key.stats.promptTokens} / 输出 ${key.stats.completionTokens}`}>
+                              <div className="text-xs text-amber-600 font-medium">Tokens</div>
+                              <div className="text-sm font-bold text-amber-800">{key.stats.totalTokens.toLocaleString()}</div>
+                            </div>
                           </div>
                         )}
                       </div>
@@ -632,11 +756,24 @@ AIzaxxxx`}
                               <Activity className="w-4 h-4 text-blue-500" />
                               <span>使用次数: {key.request_count}</span>
                             </div>
+                            <label className="flex items-center space-x-1" title="weighted 选择策略下的权重，0 表示仅在其他 Key 都失败时使用">
+                              <span>权重:</span>
+                              <input
+                                key={`${key.id}-${key.weight}`}
+                                type="number"
+                                min={0}
+                                step={1}
+                                defaultValue={key.weight}
+                                onBlur={(e) => updateKeyWeight(key.id, e.target.value, key.weight)}
+                                className="w-16 px-2 py-0.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </label>
                             <span className="hidden lg:inline">创建时间: {new Date(key.created_at).toLocaleString('zh-CN')}</span>
                           </div>
+                          {renderCooldowns(key)}
                           {/* 统计信息 */}
                           {key.stats && (
-                            <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <div className="mt-2 grid grid-cols-2 md:grid-cols-5 gap-3">
                               <div className="bg-blue-50 rounded-lg px-3 py-2">
                                 <div className="text-xs text-blue-600 font-medium">总调用</div>
                                 <div className="text-sm font-bold text-blue-800">{key.stats.totalCalls}</div>
@@ -653,6 +790,10 @@ AIzaxxxx`}
                                 <div className="text-xs text-purple-600 font-medium">成功率</div>
                                 <div className="text-sm font-bold text-purple-800">{key.stats.successRate}%</div>
                               </div>
+                              <div className="bg-amber-50 rounded-lg px-3 py-2" title={`输入 ${key.stats.promptTokens} / 输出 ${key.stats.completionTokens}`}>
+                                <div className="text-xs text-amber-600 font-medium">Tokens</div>
+                                <div className="text-sm font-bold text-amber-800">{key.stats.totalTokens.toLocaleString()}</div>
+                              </div>
                             </div>
                           )}
                         </div>
@@ -30,6 +30,7 @@ interface DashboardStats {
 
 interface LogEntry {
   id: number;
+  request_id?: string | null;
   timestamp: string;
   ip_address: string;
   model_requested: string;
@@ -37,6 +38,10 @@ interface LogEntry {
   duration_ms: number;
   is_stream: boolean;
   error_message?: string;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  total_tokens?: number | null;
+  request_type?: string | null;
   gemini_keys?: {
     id: string;
     key_suffix: string;
@@ -723,8 +728,32 @@ export default function AdminDashboard() {
                     <label className="block text-sm font-medium text-gray-700 mb-1">响应时间</label>
                     <p className="text-sm text-gray-900">{(selectedLog.duration_ms / 1000).toFixed(2)}s</p>
                   </div>
+                  {selectedLog.request_id && (
+                    <div className="col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">请求 ID</label>
+                      <p className="text-sm text-gray-900 font-mono break-all">{selectedLog.request_id}</p>
+                    </div>
+                  )}
                 </div>
 
+                {/* Token 用量 */}
+                {selectedLog.total_tokens != null && (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">输入 Tokens</label>
+                      <p className="text-sm text-gray-900">{selectedLog.prompt_tokens ?? 0}</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">输出 Tokens</label>
+                      <p className="text-sm text-gray-900">{selectedLog.completion_tokens ?? 0}</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">总 Tokens</label>
+                      <p className="text-sm text-gray-900">{selectedLog.total_tokens}</p>
+                    </div>
+                  </div>
+                )}
+
                 {/* 状态信息 */}
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -741,6 +770,11 @@ export default function AdminDashboard() {
                     }`}>
                       {selectedLog.is_stream ? '流式调用' : '非流式调用'}
                     </span>
+                    {selectedLog.request_type === 'count_tokens' && (
+                      <span className="ml-2 inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+                        Token 统计
+                      </span>
+                    )}
                   </div>
                 </div>
 
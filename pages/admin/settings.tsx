@@ -7,13 +7,39 @@ interface StreamingConfig {
   enabled: boolean;
   fake_stream_enabled: boolean;
   disguise_enabled: boolean;
+  system_instruction_enabled: boolean;
+  legacy_system_prompt_models: string[];
+  key_selection_strategy: string;
+  key_revalidation_enabled: boolean;
+  key_revalidation_max_failures: number;
+  retry_max_attempts: number;
+  retry_deadline_ms: number;
+  retry_backoff_base_ms: number;
+  retry_backoff_max_ms: number;
 }
 
+// Gemini Key 选择策略
+const KEY_SELECTION_STRATEGIES = [
+  { value: 'round_robin', label: '轮询', description: '所有实例共享一个游标，按顺序轮流使用每个 Key。' },
+  { value: 'least_recently_used', label: '最久未使用优先', description: '优先使用最长时间没被调用过的 Key。' },
+  { value: 'weighted', label: '按权重随机', description: '按 Gemini Keys 页面设置的权重随机挑选，权重为 0 的 Key 只在其他 Key 都失败时使用。' },
+  { value: 'latency', label: '延迟优先', description: '优先使用近期平均响应最快的 Key，偶尔会随机探测其他 Key。' },
+];
+
 export default function SystemSettings() {
   const [config, setConfig] = useState<StreamingConfig>({
     enabled: true,
     fake_stream_enabled: false,
     disguise_enabled: true,
+    system_instruction_enabled: true,
+    legacy_system_prompt_models: ['gemma'],
+    key_selection_strategy: 'round_robin',
+    key_revalidation_enabled: true,
+    key_revalidation_max_failures: 5,
+    retry_max_attempts: 5,
+    retry_deadline_ms: 30000,
+    retry_backoff_base_ms: 500,
+    retry_backoff_max_ms: 8000,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -234,6 +260,149 @@ export default function SystemSettings() {
                 </label>
               </div>
 
+              {/* 原生 System Instruction */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium text-gray-900">使用原生 System Instruction</label>
+                  <p className="text-sm text-gray-500">system/developer 消息放进 Gemini 的 systemInstruction，关掉就回到老办法，拼成 "System:" 开头的用户消息。</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={config.system_instruction_enabled}
+                    onChange={(e) => handleConfigChange('system_instruction_enabled', e.target.checked)}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+
+              {/* 仍使用 System: 前缀的模型 */}
+              <div>
+                <label className="text-sm font-medium text-gray-900">仍使用 "System:" 前缀的模型</label>
+                <p className="text-sm text-gray-500 mb-2">不支持 systemInstruction 的模型名前缀，用英文逗号分隔，例如 gemma。</p>
+                <input
+                  type="text"
+                  value={config.legacy_system_prompt_models.join(', ')}
+                  onChange={(e) => handleConfigChange('legacy_system_prompt_models', e.target.value.split(',').map(model => model.trim()))}
+                  disabled={!config.system_instruction_enabled}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-400"
+                />
+              </div>
+
+              {/* Gemini Key 选择策略 */}
+              <div>
+                <label className="text-sm font-medium text-gray-900">Gemini Key 选择策略</label>
+                <p className="text-sm text-gray-500 mb-2">
+                  {KEY_SELECTION_STRATEGIES.find(strategy => strategy.value === config.key_selection_strategy)?.description}
+                </p>
+                <select
+                  value={config.key_selection_strategy}
+                  onChange={(e) => handleConfigChange('key_selection_strategy', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {KEY_SELECTION_STRATEGIES.map(strategy => (
+                    <option key={strategy.value} value={strategy.value}>{strategy.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* 失效 Key 定时复检 */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium text-gray-900">定时复检失效的 Key</label>
+                  <p className="text-sm text-gray-500">按 vercel.json 中的定时任务（默认每天一次）重新检查被判定失效或正在冷却的 Key，恢复正常的自动重新启用。</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={config.key_revalidation_enabled}
+                    onChange={(e) => handleConfigChange('key_revalidation_enabled', e.target.checked)}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+
+              {/* 连续复检失败上限 */}
+              <div>
+                <label className="text-sm font-medium text-gray-900">连续复检失败上限</label>
+                <p className="text-sm text-gray-500 mb-2">失效的 Key 连续这么多次复检都被 Google 拒绝，就永久停用，不再复检（网络错误不算）。</p>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={config.key_revalidation_max_failures}
+                  onChange={(e) => handleConfigChange('key_revalidation_max_failures', parseInt(e.target.value, 10) || 1)}
+                  disabled={!config.key_revalidation_enabled}
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-400"
+                />
+              </div>
+
+              {/* 重试次数与截止时间 */}
+              <div>
+                <label className="text-sm font-medium text-gray-900">重试策略</label>
+                <p className="text-sm text-gray-500 mb-2">每个请求最多换这么多个 Key，或者超过截止时间就不再换 Key。参数错误、模型不存在、内容被拦截这类换 Key 也没用的错误会直接返回。</p>
+                <div className="flex items-center space-x-4">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>最多尝试</span>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={config.retry_max_attempts}
+                      onChange={(e) => handleConfigChange('retry_max_attempts', parseInt(e.target.value, 10) || 1)}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span>个 Key</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>截止时间</span>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1000}
+                      value={config.retry_deadline_ms}
+                      onChange={(e) => handleConfigChange('retry_deadline_ms', parseInt(e.target.value, 10) || 1)}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span>毫秒</span>
+                  </label>
+                </div>
+              </div>
+
+              {/* 过载退避 */}
+              <div>
+                <label className="text-sm font-medium text-gray-900">过载退避</label>
+                <p className="text-sm text-gray-500 mb-2">Google 返回 503（服务过载）时，先等一会儿再换下一个 Key。等待时间从最小值开始每次翻倍，不超过最大值，并带一点随机抖动。</p>
+                <div className="flex items-center space-x-4">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>最小</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={100}
+                      value={config.retry_backoff_base_ms}
+                      onChange={(e) => handleConfigChange('retry_backoff_base_ms', parseInt(e.target.value, 10) || 0)}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span>毫秒</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>最大</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={100}
+                      value={config.retry_backoff_max_ms}
+                      onChange={(e) => handleConfigChange('retry_backoff_max_ms', parseInt(e.target.value, 10) || 0)}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span>毫秒</span>
+                  </label>
+                </div>
+              </div>
+
               {/* 说明信息 */}
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <h4 className="text-sm font-medium text-blue-900 mb-2">配置说明</h4>
@@ -13,16 +13,28 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(500).json({ error: 'Failed to fetch access keys' });
     }
     
-    // 获取每个密钥的调用次数
+    // 获取每个密钥的调用次数（token 统计请求单独计数，不计入调用次数）
     const keysWithCount = await Promise.all((data || []).map(async (key) => {
       const { count } = await supabase
         .from('call_logs')
         .select('*', { count: 'exact', head: true })
-        .eq('access_key_id', key.id);
+        .eq('access_key_id', key.id)
+        .neq('request_type', 'count_tokens');
+      
+      const { count: countTokensCount } = await supabase
+        .from('call_logs')
+        .select('*', { count: 'exact', head: true })
+        .eq('access_key_id', key.id)
+        .eq('request_type', 'count_tokens');
+      
+      // 累计 token 用量（在数据库中汇总）
+      const { data: totalTokens } = await supabase.rpc('sum_access_key_tokens', { key_id: key.id });
       
       return {
         ...key,
-        request_count: count || 0
+        request_count: count || 0,
+        count_tokens_count: countTokensCount || 0,
+        total_tokens: Number(totalTokens || 0)
       };
     }));
     
@@ -136,6 +136,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const { data, error } = await supabase
         .from('call_logs')
         .select('id', { count: 'exact' })
+        .neq('request_type', 'count_tokens')
         .gte('timestamp', refreshPeriod.start)
         .lte('timestamp', refreshPeriod.end);
       
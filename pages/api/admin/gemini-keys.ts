@@ -1,5 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '@/lib/supabaseClient';
+import { clearKeysCache } from '@/lib/key-manager';
+import { getKeyCooldowns } from '@/lib/key-cooldown';
 
 // 计算自刷新额度统计的时间范围（每天下午2点开始到次日下午1:59）
 function getRefreshPeriodRange() {
@@ -52,7 +54,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // 获取所有 Gemini Keys 及其统计信息
     const { data: keys, error: keysError } = await supabase
       .from('gemini_keys')
-      .select('id, api_key, key_suffix, is_active, is_valid, request_count, last_used_at, created_at')
+      .select('id, api_key, key_suffix, is_active, is_valid, request_count, weight, consecutive_failures, last_checked_at, retired_at, last_used_at, created_at')
       .order('created_at', { ascending: false });
     
     if (keysError) {
@@ -65,6 +67,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       timeRange = getRefreshPeriodRange();
     }
 
+    // 限流冷却中的 key / 模型组合
+    const cooldowns = await getKeyCooldowns();
+
     // 为每个key获取详细统计
     const keysWithStats = await Promise.all((keys || []).map(async (key) => {
       let totalCallsQuery = supabase
@@ -96,13 +101,30 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const { count: successCalls } = await successCallsQuery;
       const { count: failedCalls } = await failedCallsQuery;
 
+      // 累计 token 用量（在数据库中汇总）
+      const { data: usageRows } = await supabase.rpc('sum_gemini_key_tokens', {
+        key_id: key.id,
+        start_time: isToday && timeRange ? timeRange.start : null,
+        end_time: isToday && timeRange ? timeRange.end : null,
+      });
+      const usage = usageRows?.[0];
+      const tokenStats = {
+        promptTokens: Number(usage?.prompt_tokens || 0),
+        completionTokens: Number(usage?.completion_tokens || 0),
+        totalTokens: Number(usage?.total_tokens || 0),
+      };
+
       return {
          ...key,
+         cooldowns: cooldowns
+           .filter((cooldown) => cooldown.keyId === String(key.id))
+           .map(({ model, until, reason }) => ({ model, until, reason })),
          stats: {
            totalCalls: totalCalls || 0,
            successCalls: successCalls || 0,
            failedCalls: failedCalls || 0,
-           successRate: (totalCalls || 0) > 0 ? (((successCalls || 0) / (totalCalls || 0)) * 100).toFixed(1) : '0.0'
+           successRate: (totalCalls || 0) > 0 ? (((successCalls || 0) / (totalCalls || 0)) * 100).toFixed(1) : '0.0',
+           ...tokenStats
          }
        };
     }));
@@ -150,12 +172,37 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
   
   if (req.method === 'PUT') {
-    // 更新 Gemini Key 状态
-    const { id, is_active } = req.body;
+    // 更新 Gemini Key 状态或权重（只更新传入的字段）
+    const { id, is_active, weight } = req.body;
+    const updates: { is_active?: boolean; weight?: number; retired_at?: null; consecutive_failures?: number } = {};
+    
+    if (is_active !== undefined) {
+      if (typeof is_active !== 'boolean') {
+        return res.status(400).json({ error: 'is_active must be a boolean' });
+      }
+      updates.is_active = is_active;
+      
+      // 手动重新启用的 Key 不再视为永久停用，重新参与定时复检
+      if (is_active) {
+        updates.retired_at = null;
+        updates.consecutive_failures = 0;
+      }
+    }
+    
+    if (weight !== undefined) {
+      if (!Number.isInteger(weight) || weight < 0) {
+        return res.status(400).json({ error: 'weight must be a non-negative integer' });
+      }
+      updates.weight = weight;
+    }
+    
+    if (!id || Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: 'Missing key ID or fields to update' });
+    }
     
     const { data, error } = await supabase
       .from('gemini_keys')
-      .update({ is_active })
+      .update(updates)
       .eq('id', id)
       .select()
       .single();
@@ -164,6 +211,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(500).json({ error: 'Failed to update key' });
     }
     
+    // 清除 Key 缓存，使新的状态和权重立即生效
+    await clearKeysCache();
+    
     return res.status(200).json(data);
   }
   
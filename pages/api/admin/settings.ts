@@ -4,13 +4,33 @@ import {
   updateStreamingConfig, 
   StreamingConfig,
   getDisguiseEnabled,
-  updateDisguiseEnabled 
+  updateDisguiseEnabled,
+  getSystemInstructionConfig,
+  updateSystemInstructionConfig,
+  getKeySelectionStrategy,
+  updateKeySelectionStrategy,
+  KeySelectionStrategy,
+  KEY_SELECTION_STRATEGIES,
+  getKeyRevalidationConfig,
+  updateKeyRevalidationConfig,
+  getRetryPolicyConfig,
+  updateRetryPolicyConfig,
+  clearSettingsCache
 } from '@/lib/settings-manager';
 import { ApiError } from '@/lib/config';
 
-// 扩展的配置接口，包含伪装信息设置
+// 扩展的配置接口，包含伪装信息、System Instruction、Key 选择策略、失效 Key 复检和重试策略设置
 interface ExtendedConfig extends StreamingConfig {
   disguise_enabled: boolean;
+  system_instruction_enabled: boolean;
+  legacy_system_prompt_models: string[];
+  key_selection_strategy: KeySelectionStrategy;
+  key_revalidation_enabled: boolean;
+  key_revalidation_max_failures: number;
+  retry_max_attempts: number;
+  retry_deadline_ms: number;
+  retry_backoff_base_ms: number;
+  retry_backoff_max_ms: number;
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -19,10 +39,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       // 获取流式传输配置和伪装信息设置
       const streamingConfig = await getStreamingConfig();
       const disguiseEnabled = await getDisguiseEnabled();
+      const systemInstructionConfig = await getSystemInstructionConfig();
+      const keySelectionStrategy = await getKeySelectionStrategy();
+      const keyRevalidationConfig = await getKeyRevalidationConfig();
+      const retryPolicyConfig = await getRetryPolicyConfig();
       
       const config: ExtendedConfig = {
         ...streamingConfig,
-        disguise_enabled: disguiseEnabled
+        disguise_enabled: disguiseEnabled,
+        system_instruction_enabled: systemInstructionConfig.enabled,
+        legacy_system_prompt_models: systemInstructionConfig.legacy_prefix_models,
+        key_selection_strategy: keySelectionStrategy,
+        key_revalidation_enabled: keyRevalidationConfig.enabled,
+        key_revalidation_max_failures: keyRevalidationConfig.max_consecutive_failures,
+        retry_max_attempts: retryPolicyConfig.max_attempts,
+        retry_deadline_ms: retryPolicyConfig.deadline_ms,
+        retry_backoff_base_ms: retryPolicyConfig.backoff_base_ms,
+        retry_backoff_max_ms: retryPolicyConfig.backoff_max_ms
       };
       
       return res.status(200).json({
@@ -30,57 +63,156 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         data: config
       });
     } else if (req.method === 'PUT') {
-      console.log('Settings PUT request received:', req.body);
-      
-      // 更新流式传输配置和伪装信息设置
-      const { enabled, fake_stream_enabled, disguise_enabled } = req.body;
-
-      console.log('Parsed values:', { enabled, fake_stream_enabled, disguise_enabled });
+      // 只校验并更新请求中出现的字段，其余沿用当前配置
+      const body = req.body ?? {};
+      const has = (field: keyof ExtendedConfig) => body[field] !== undefined;
+      const { enabled, fake_stream_enabled, disguise_enabled, system_instruction_enabled, legacy_system_prompt_models, key_selection_strategy, key_revalidation_enabled, key_revalidation_max_failures, retry_max_attempts, retry_deadline_ms, retry_backoff_base_ms, retry_backoff_max_ms } = body;
 
       // 验证输入
-      if (typeof enabled !== 'boolean') {
+      if (has('enabled') && typeof enabled !== 'boolean') {
         console.error('Validation error: enabled is not boolean:', typeof enabled, enabled);
         throw new ApiError(400, 'enabled must be a boolean');
       }
 
-      if (typeof fake_stream_enabled !== 'boolean') {
+      if (has('fake_stream_enabled') && typeof fake_stream_enabled !== 'boolean') {
         console.error('Validation error: fake_stream_enabled is not boolean:', typeof fake_stream_enabled, fake_stream_enabled);
         throw new ApiError(400, 'fake_stream_enabled must be a boolean');
       }
 
-      if (typeof disguise_enabled !== 'boolean') {
+      if (has('disguise_enabled') && typeof disguise_enabled !== 'boolean') {
         console.error('Validation error: disguise_enabled is not boolean:', typeof disguise_enabled, disguise_enabled);
         throw new ApiError(400, 'disguise_enabled must be a boolean');
       }
 
+      if (has('system_instruction_enabled') && typeof system_instruction_enabled !== 'boolean') {
+        console.error('Validation error: system_instruction_enabled is not boolean:', typeof system_instruction_enabled, system_instruction_enabled);
+        throw new ApiError(400, 'system_instruction_enabled must be a boolean');
+      }
+
+      if (has('legacy_system_prompt_models') && (!Array.isArray(legacy_system_prompt_models) || legacy_system_prompt_models.some((model: any) => typeof model !== 'string'))) {
+        console.error('Validation error: legacy_system_prompt_models is not a string array:', legacy_system_prompt_models);
+        throw new ApiError(400, 'legacy_system_prompt_models must be an array of strings');
+      }
+
+      if (has('key_selection_strategy') && !KEY_SELECTION_STRATEGIES.includes(key_selection_strategy)) {
+        console.error('Validation error: invalid key_selection_strategy:', key_selection_strategy);
+        throw new ApiError(400, `key_selection_strategy must be one of: ${KEY_SELECTION_STRATEGIES.join(', ')}`);
+      }
+
+      if (has('key_revalidation_enabled') && typeof key_revalidation_enabled !== 'boolean') {
+        console.error('Validation error: key_revalidation_enabled is not boolean:', typeof key_revalidation_enabled, key_revalidation_enabled);
+        throw new ApiError(400, 'key_revalidation_enabled must be a boolean');
+      }
+
+      if (has('key_revalidation_max_failures') && (!Number.isInteger(key_revalidation_max_failures) || key_revalidation_max_failures < 1)) {
+        console.error('Validation error: invalid key_revalidation_max_failures:', key_revalidation_max_failures);
+        throw new ApiError(400, 'key_revalidation_max_failures must be a positive integer');
+      }
+
+      if (has('retry_max_attempts') && (!Number.isInteger(retry_max_attempts) || retry_max_attempts < 1)) {
+        console.error('Validation error: invalid retry_max_attempts:', retry_max_attempts);
+        throw new ApiError(400, 'retry_max_attempts must be a positive integer');
+      }
+
+      if (has('retry_deadline_ms') && (!Number.isInteger(retry_deadline_ms) || retry_deadline_ms < 1)) {
+        console.error('Validation error: invalid retry_deadline_ms:', retry_deadline_ms);
+        throw new ApiError(400, 'retry_deadline_ms must be a positive integer');
+      }
+
+      if ((has('retry_backoff_base_ms') && (!Number.isInteger(retry_backoff_base_ms) || retry_backoff_base_ms < 0)) ||
+          (has('retry_backoff_max_ms') && (!Number.isInteger(retry_backoff_max_ms) || retry_backoff_max_ms < 0))) {
+        console.error('Validation error: invalid retry backoff:', retry_backoff_base_ms, retry_backoff_max_ms);
+        throw new ApiError(400, 'retry_backoff_base_ms and retry_backoff_max_ms must be non-negative integers');
+      }
+
+      // 与当前配置合并后再校验组合约束（先清除缓存，读取数据库中的最新值）
+      await clearSettingsCache();
+      const currentStreaming = await getStreamingConfig();
+      const currentSystemInstruction = await getSystemInstructionConfig();
+      const currentKeyRevalidation = await getKeyRevalidationConfig();
+      const currentRetryPolicy = await getRetryPolicyConfig();
+
+      const streamingConfig: StreamingConfig = {
+        enabled: has('enabled') ? enabled : currentStreaming.enabled,
+        fake_stream_enabled: has('fake_stream_enabled') ? fake_stream_enabled : currentStreaming.fake_stream_enabled
+      };
+      const systemInstructionConfig = {
+        enabled: has('system_instruction_enabled') ? system_instruction_enabled : currentSystemInstruction.enabled,
+        legacy_prefix_models: has('legacy_system_prompt_models')
+          ? legacy_system_prompt_models.map((model: string) => model.trim()).filter(Boolean)
+          : currentSystemInstruction.legacy_prefix_models
+      };
+      const keyRevalidationConfig = {
+        enabled: has('key_revalidation_enabled') ? key_revalidation_enabled : currentKeyRevalidation.enabled,
+        max_consecutive_failures: has('key_revalidation_max_failures') ? key_revalidation_max_failures : currentKeyRevalidation.max_consecutive_failures
+      };
+      const retryPolicyConfig = {
+        max_attempts: has('retry_max_attempts') ? retry_max_attempts : currentRetryPolicy.max_attempts,
+        deadline_ms: has('retry_deadline_ms') ? retry_deadline_ms : currentRetryPolicy.deadline_ms,
+        backoff_base_ms: has('retry_backoff_base_ms') ? retry_backoff_base_ms : currentRetryPolicy.backoff_base_ms,
+        backoff_max_ms: has('retry_backoff_max_ms') ? retry_backoff_max_ms : currentRetryPolicy.backoff_max_ms
+      };
+
       // 验证互斥逻辑：enabled 和 fake_stream_enabled 不能同时为 true
-      if (enabled && fake_stream_enabled) {
+      if (streamingConfig.enabled && streamingConfig.fake_stream_enabled) {
         console.error('Validation error: both enabled and fake_stream_enabled are true');
         throw new ApiError(400, '真实流式传输和伪装流式传输不能同时启用');
       }
 
-      // 更新流式传输配置
-      const streamingConfig: StreamingConfig = {
-        enabled,
-        fake_stream_enabled
-      };
+      if (retryPolicyConfig.backoff_max_ms < retryPolicyConfig.backoff_base_ms) {
+        console.error('Validation error: retry_backoff_max_ms is less than retry_backoff_base_ms:', retryPolicyConfig);
+        throw new ApiError(400, 'retry_backoff_max_ms must not be less than retry_backoff_base_ms');
+      }
 
-      console.log('Updating streaming config:', streamingConfig);
-      const streamingSuccess = await updateStreamingConfig(streamingConfig);
-      console.log('Streaming config update result:', streamingSuccess);
-      
-      console.log('Updating disguise enabled:', disguise_enabled);
-      const disguiseSuccess = await updateDisguiseEnabled(disguise_enabled);
-      console.log('Disguise enabled update result:', disguiseSuccess);
-      
-      if (!streamingSuccess || !disguiseSuccess) {
-        console.error('Update failed - streaming:', streamingSuccess, 'disguise:', disguiseSuccess);
+      // 只写入有变动的配置组
+      const updates: Array<[string, Promise<boolean>]> = [];
+
+      if (has('enabled') || has('fake_stream_enabled')) {
+        console.log('Updating streaming config:', streamingConfig);
+        updates.push(['streaming', updateStreamingConfig(streamingConfig)]);
+      }
+
+      if (has('disguise_enabled')) {
+        console.log('Updating disguise enabled:', disguise_enabled);
+        updates.push(['disguise', updateDisguiseEnabled(disguise_enabled)]);
+      }
+
+      if (has('system_instruction_enabled') || has('legacy_system_prompt_models')) {
+        updates.push(['system instruction', updateSystemInstructionConfig(systemInstructionConfig)]);
+      }
+
+      if (has('key_selection_strategy')) {
+        updates.push(['key selection', updateKeySelectionStrategy(key_selection_strategy)]);
+      }
+
+      if (has('key_revalidation_enabled') || has('key_revalidation_max_failures')) {
+        updates.push(['key revalidation', updateKeyRevalidationConfig(keyRevalidationConfig)]);
+      }
+
+      if (has('retry_max_attempts') || has('retry_deadline_ms') || has('retry_backoff_base_ms') || has('retry_backoff_max_ms')) {
+        updates.push(['retry policy', updateRetryPolicyConfig(retryPolicyConfig)]);
+      }
+
+      const results = await Promise.all(updates.map(([, update]) => update));
+      const failed = updates.filter((_, index) => !results[index]).map(([name]) => name);
+
+      if (failed.length > 0) {
+        console.error('Update failed:', failed.join(', '));
         throw new ApiError(500, 'Failed to update configuration');
       }
 
       const newConfig: ExtendedConfig = {
         ...streamingConfig,
-        disguise_enabled
+        disguise_enabled: has('disguise_enabled') ? disguise_enabled : await getDisguiseEnabled(),
+        system_instruction_enabled: systemInstructionConfig.enabled,
+        legacy_system_prompt_models: systemInstructionConfig.legacy_prefix_models,
+        key_selection_strategy: has('key_selection_strategy') ? key_selection_strategy : await getKeySelectionStrategy(),
+        key_revalidation_enabled: keyRevalidationConfig.enabled,
+        key_revalidation_max_failures: keyRevalidationConfig.max_consecutive_failures,
+        retry_max_attempts: retryPolicyConfig.max_attempts,
+        retry_deadline_ms: retryPolicyConfig.deadline_ms,
+        retry_backoff_base_ms: retryPolicyConfig.backoff_base_ms,
+        retry_backoff_max_ms: retryPolicyConfig.backoff_max_ms
       };
 
       return res.status(200).json({
@@ -117,7 +117,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           .update({ 
             request_count: (currentKey?.request_count || 0) + 1,
             last_used_at: new Date().toISOString(),
-            is_valid: success
+            is_valid: success,
+            // 手动测试通过的 Key 重新参与定时复检
+            ...(success ? { consecutive_failures: 0, retired_at: null } : {})
           })
           .eq('id', key.id);
       } catch (logError) {
@@ -0,0 +1,29 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { processBatches } from '@/lib/batch-processor';
+import { checkCronRequest } from '@/lib/cron-auth';
+
+// 单次执行处理批处理的时长（进行中的请求到点即中断），需给收尾留出余量，小于 vercel.json 中该函数的 maxDuration
+const PROCESS_TIME_BUDGET_MS = 45 * 1000;
+
+// 处理排队中的批处理任务：由批处理接口顺带触发，Vercel Cron 每天兜底调用一次
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const authError = checkCronRequest(req.headers);
+  if (authError) {
+    return res.status(authError.status).json({ error: authError.error });
+  }
+
+  try {
+    const result = await processBatches(Date.now() + PROCESS_TIME_BUDGET_MS);
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Process batches error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { revalidateKeys } from '@/lib/key-revalidation';
+import { checkCronRequest } from '@/lib/cron-auth';
+
+// Vercel Cron 定时调用，复检失效和冷却中的 Gemini Key
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const authError = checkCronRequest(req.headers);
+  if (authError) {
+    return res.status(authError.status).json({ error: authError.error });
+  }
+
+  try {
+    const result = await revalidateKeys();
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Revalidate keys error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { convertUsageMetadata, getPromptBlockError } from '@/lib/converter';
+import { parseSpeechRequest, createSpeechRequest, extractSpeechPcm, encodeSpeech } from '@/lib/audio';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 语音合成：Gemini TTS 模型返回 PCM，再按请求的格式编码
+export default async function handler(request: Request): Promise<Response> {
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    let requestBody: any;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      throw new ApiError(400);
+    }
+    
+    const speechRequest = parseSpeechRequest(requestBody);
+    
+    const speech = await callWithKeyFailover({
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: speechRequest.model,
+      is_stream: false,
+    }, '[SPEECH]', async (key, _logSuccess, signal) => {
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({ model: speechRequest.model });
+      
+      const result = await geminiModel.generateContent(createSpeechRequest(speechRequest), { signal });
+      const response = await result.response;
+      const blockError = getPromptBlockError(response);
+      if (blockError) {
+        throw new ApiError(400, blockError.message, 'input', 'content_filter');
+      }
+      
+      const { pcm, sampleRate } = extractSpeechPcm(response);
+      return {
+        result: encodeSpeech(pcm, sampleRate, speechRequest.responseFormat),
+        usage: convertUsageMetadata(response.usageMetadata),
+      };
+    });
+    
+    return new Response(speech.body, {
+      status: 200,
+      headers: { 'Content-Type': speech.contentType, ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Speech API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS, ...apiError.headers },
+    });
+  }
+}
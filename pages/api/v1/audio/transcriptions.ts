@@ -0,0 +1,86 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { convertUsageMetadata, extractCandidateOutput, getPromptBlockError } from '@/lib/converter';
+import { parseTranscriptionForm, createTranscriptionRequest, formatTranscription } from '@/lib/audio';
+import { ApiError, SAFETY_SETTINGS, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 语音转写：音频内联发送给 Gemini，由模型按提示词转写
+export default async function handler(request: Request): Promise<Response> {
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch (error) {
+      throw new ApiError(400, 'Invalid request body, expected multipart/form-data');
+    }
+    
+    const transcriptionRequest = await parseTranscriptionForm(formData);
+    const geminiRequest = createTranscriptionRequest(transcriptionRequest);
+    
+    const transcription = await callWithKeyFailover({
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: transcriptionRequest.model,
+      is_stream: false,
+    }, '[TRANSCRIPTIONS]', async (key, _logSuccess, signal) => {
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({
+        model: transcriptionRequest.model,
+        safetySettings: SAFETY_SETTINGS
+      });
+      
+      const result = await geminiModel.generateContent(geminiRequest, { signal });
+      const response = await result.response;
+      const blockError = getPromptBlockError(response);
+      if (blockError) {
+        throw new ApiError(400, blockError.message, 'file', 'content_filter');
+      }
+      
+      const usage = convertUsageMetadata(response.usageMetadata);
+      const { text } = extractCandidateOutput(response.candidates?.[0]);
+      return {
+        result: formatTranscription(text, transcriptionRequest, usage),
+        usage,
+      };
+    });
+    
+    return new Response(transcription.body, {
+      status: 200,
+      headers: { 'Content-Type': transcription.contentType, ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Transcriptions API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS, ...apiError.headers },
+    });
+  }
+}
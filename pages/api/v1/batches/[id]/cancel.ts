@@ -0,0 +1,46 @@
+import { NextFetchEvent } from 'next/server';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { cancelBatch, toBatchObject, triggerBatchProcessing } from '@/lib/batches';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 取消批处理任务，已完成的请求结果会保留在结果文件中
+export default async function handler(request: Request, event: NextFetchEvent): Promise<Response> {
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    const segments = new URL(request.url).pathname.split('/');
+    const batchId = decodeURIComponent(segments[segments.length - 2] || '');
+    
+    const batch = await cancelBatch(batchId, accessKeyId);
+    event.waitUntil(triggerBatchProcessing(request.url));
+    return new Response(JSON.stringify(toBatchObject(batch)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Batches API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextFetchEvent } from 'next/server';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { getBatch, toBatchObject, triggerBatchProcessing } from '@/lib/batches';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 查询批处理任务状态
+export default async function handler(request: Request, event: NextFetchEvent): Promise<Response> {
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'GET') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    const batchId = decodeURIComponent(new URL(request.url).pathname.split('/').pop() || '');
+    
+    const batch = await getBatch(batchId, accessKeyId);
+    if (!batch) {
+      throw new ApiError(404, `Batch with id '${batchId}' not found`);
+    }
+    event.waitUntil(triggerBatchProcessing(request.url));
+    return new Response(JSON.stringify(toBatchObject(batch)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Batches API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextFetchEvent } from 'next/server';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { createBatch, listBatches, toBatchObject, triggerBatchProcessing } from '@/lib/batches';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 每页返回的批处理任务数
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// 创建批处理任务或分页列出已有任务，任务在后台异步处理（见 triggerBatchProcessing）
+export default async function handler(request: Request, event: NextFetchEvent): Promise<Response> {
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    if (request.method === 'GET') {
+      const searchParams = new URL(request.url).searchParams;
+      const limit = Number(searchParams.get('limit') ?? DEFAULT_LIST_LIMIT);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+        throw new ApiError(400, `Invalid 'limit': expected an integer between 1 and ${MAX_LIST_LIMIT}`, 'limit');
+      }
+      
+      const list = await listBatches(accessKeyId, searchParams.get('after'), limit);
+      return new Response(JSON.stringify(list), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    let requestBody: any;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      throw new ApiError(400);
+    }
+    
+    const batch = await createBatch(accessKeyId, requestBody);
+    event.waitUntil(triggerBatchProcessing(request.url));
+    return new Response(JSON.stringify(toBatchObject(batch)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Batches API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+  }
+}
@@ -1,60 +1,29 @@
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
-import { getAllAvailableGeminiKeys, validateAccessKey, updateKeyUsage, markKeyAsInvalid } from '@/lib/key-manager';
-import { logApiCall } from '@/lib/logging';
-import { convertOpenAItoGemini, convertGeminiStreamToOpenAI } from '@/lib/converter';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { validateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { generateChatCompletion } from '@/lib/chat-completions';
+import { convertOpenAItoGemini, convertGeminiStreamToOpenAI, createCompletionMeta, createStreamFinishChunk, createStreamState, createStreamUsageChunk, createFakeStreamChunks, convertUsageMetadata, getPromptBlockError, CompletionMeta, CompletionUsage } from '@/lib/converter';
 import { getStreamingConfig } from '@/lib/settings-manager';
-import { ApiError } from '@/lib/config';
+import { ApiError, SAFETY_SETTINGS } from '@/lib/config';
 
 // Edge Function配置
 export const config = {
   runtime: 'edge',
 };
 
-// 正确的安全设置类型
-const SAFETY_SETTINGS = [
-  {
-    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-];
-
-// 判断是否为可重试的错误
-function isRetryableError(error: any): boolean {
-  if (!error) return false;
-  
-  const errorMessage = error.message || error.toString();
-  const errorCode = error.code || error.status;
-  
-  // 明确的客户端错误 - 不可重试
-  if (errorCode === 401) {
-    return false;
-  }
-  
-  if (errorCode === 403 && !errorMessage.includes('API key') && !errorMessage.includes('API_KEY')) {
-    return false;
-  }
-  
-  return true;
-}
+// 流式响应结束后的回调（用于在流关闭前记录包含 token 用量的日志）
+type StreamCompleteCallback = (usage: CompletionUsage) => Promise<void>;
 
 // 真实流式传输实现
 async function handleRealStream(
   keyId: string,
   apiKey: string,
   geminiRequest: any,
-  model: string
+  model: string,
+  includeUsage: boolean,
+  meta: CompletionMeta,
+  onComplete: StreamCompleteCallback,
+  signal: AbortSignal
 ): Promise<Response> {
   try {
     const genAI = new GoogleGenerativeAI(apiKey);
@@ -63,64 +32,52 @@ async function handleRealStream(
       safetySettings: SAFETY_SETTINGS
     });
     
-    const result = await geminiModel.generateContentStream(geminiRequest);
+    const result = await geminiModel.generateContentStream(geminiRequest, { signal });
+    
+    // 先读取第一个 chunk，请求被拦截时在返回流之前抛出错误
+    const iterator = result.stream[Symbol.asyncIterator]();
+    const firstChunk = await iterator.next();
+    const blockError = firstChunk.done ? null : getPromptBlockError(firstChunk.value);
+    if (blockError) {
+      throw blockError;
+    }
     
     const encoder = new TextEncoder();
+    const streamState = createStreamState(meta);
     const stream = new ReadableStream({
       async start(controller) {
+        // 发送初始连接确认
+        controller.enqueue(encoder.encode(': connected\n\n'));
+        
         try {
-          // 发送初始连接确认
-          controller.enqueue(encoder.encode(': connected\n\n'));
-          
-          try {
-            for await (const chunk of result.stream) {
-              const text = chunk.text();
-              if (text) {
-                const openaiChunk = convertGeminiStreamToOpenAI({ text }, model);
-                const sseData = `data: ${JSON.stringify(openaiChunk)}\n\n`;
-                controller.enqueue(encoder.encode(sseData));
-              }
+          let current = firstChunk;
+          while (!current.done) {
+            const openaiChunk = convertGeminiStreamToOpenAI(current.value, model, streamState);
+            if (openaiChunk) {
+              const sseData = `data: ${JSON.stringify(openaiChunk)}\n\n`;
+              controller.enqueue(encoder.encode(sseData));
             }
-          } catch (streamError) {
-            console.error('Stream processing error:', streamError);
-            // 流处理错误，但不中断连接，发送错误信息
-            const errorMessage = (streamError as any)?.message || 'Stream processing error';
-            const errorChunk = convertGeminiStreamToOpenAI({ text: `\n\n[Error: ${errorMessage}]` }, model);
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorChunk)}\n\n`));
+            current = await iterator.next();
           }
           
           // 发送结束标记
-          const finishChunk = {
-            id: `chatcmpl-${Date.now()}`,
-            object: 'chat.completion.chunk',
-            created: Math.floor(Date.now() / 1000),
-            model,
-            choices: [{
-              index: 0,
-              delta: {},
-              finish_reason: 'stop'
-            }]
-          };
+          const finishChunk = createStreamFinishChunk(model, streamState);
           controller.enqueue(encoder.encode(`data: ${JSON.stringify(finishChunk)}\n\n`));
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-        } catch (error) {
-          console.error('Stream error:', error);
-          const errorChunk = {
-            id: `chatcmpl-${Date.now()}`,
-            object: 'chat.completion.chunk',
-            created: Math.floor(Date.now() / 1000),
-            model,
-            choices: [{
-              index: 0,
-              delta: {},
-              finish_reason: 'error'
-            }]
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorChunk)}\n\n`));
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.error(error);
+          if (includeUsage) {
+            const usageChunk = createStreamUsageChunk(model, streamState);
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(usageChunk)}\n\n`));
+          }
+        } catch (streamError) {
+          // 响应已经开始，只能在流中返回错误
+          console.error('Stream processing error:', streamError);
+          const errorMessage = (streamError as any)?.message || 'Stream processing error';
+          const errorBody = new ApiError(500, `Stream interrupted: ${errorMessage}`).toJSON();
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorBody)}\n\n`));
         }
+        
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        await onComplete(convertUsageMetadata(streamState.usageMetadata)).catch(console.error);
+        controller.close();
       }
     });
     
@@ -133,6 +90,7 @@ async function handleRealStream(
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
         'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'X-Accel-Buffering': 'no',
+        'x-request-id': meta.id,
       },
     });
   } catch (error) {
@@ -146,7 +104,11 @@ async function handleFakeStream(
   keyId: string,
   apiKey: string,
   geminiRequest: any,
-  model: string
+  model: string,
+  includeUsage: boolean,
+  meta: CompletionMeta,
+  onComplete: StreamCompleteCallback,
+  signal: AbortSignal
 ): Promise<Response> {
   try {
     const genAI = new GoogleGenerativeAI(apiKey);
@@ -156,28 +118,29 @@ async function handleFakeStream(
     });
     
     // 先完整获取响应
-    const result = await geminiModel.generateContent(geminiRequest);
+    const result = await geminiModel.generateContent(geminiRequest, { signal });
     const response = await result.response;
-    const fullText = response.text();
+    const blockError = getPromptBlockError(response);
+    if (blockError) {
+      throw blockError;
+    }
+    
+    // 将完整响应拆成模拟的 Gemini 流式 chunk
+    const pendingChunks = createFakeStreamChunks(response);
     
-    // 将完整文本分块模拟流式传输
     const encoder = new TextEncoder();
+    const streamState = createStreamState(meta);
+    streamState.usageMetadata = response.usageMetadata;
     const stream = new ReadableStream({
       start(controller) {
         // 发送初始连接确认
         controller.enqueue(encoder.encode(': connected\n\n'));
         
-        // 按字符分块，而不是按词分块，这样更平滑
-        const chunkSize = 3; // 每次发送3个字符
-        let currentIndex = 0;
-        
         const sendChunk = () => {
-          if (currentIndex < fullText.length) {
-            const chunkText = fullText.slice(currentIndex, currentIndex + chunkSize);
-            currentIndex += chunkSize;
-            
-            if (chunkText) {
-              const openaiChunk = convertGeminiStreamToOpenAI({ text: chunkText }, model);
+          const pendingChunk = pendingChunks.shift();
+          if (pendingChunk) {
+            const openaiChunk = convertGeminiStreamToOpenAI(pendingChunk, model, streamState);
+            if (openaiChunk) {
               const sseData = `data: ${JSON.stringify(openaiChunk)}\n\n`;
               controller.enqueue(encoder.encode(sseData));
             }
@@ -186,20 +149,16 @@ async function handleFakeStream(
             setTimeout(sendChunk, 30);
           } else {
             // 发送结束标记
-            const finishChunk = {
-              id: `chatcmpl-${Date.now()}`,
-              object: 'chat.completion.chunk',
-              created: Math.floor(Date.now() / 1000),
-              model,
-              choices: [{
-                index: 0,
-                delta: {},
-                finish_reason: 'stop'
-              }]
-            };
+            const finishChunk = createStreamFinishChunk(model, streamState);
             controller.enqueue(encoder.encode(`data: ${JSON.stringify(finishChunk)}\n\n`));
+            if (includeUsage) {
+              const usageChunk = createStreamUsageChunk(model, streamState);
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(usageChunk)}\n\n`));
+            }
             controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-            controller.close();
+            onComplete(convertUsageMetadata(streamState.usageMetadata))
+              .catch(console.error)
+              .finally(() => controller.close());
           }
         };
         
@@ -217,6 +176,7 @@ async function handleFakeStream(
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
         'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'X-Accel-Buffering': 'no',
+        'x-request-id': meta.id,
       },
     });
   } catch (error) {
@@ -230,38 +190,12 @@ async function handleNonStream(
   keyId: string,
   apiKey: string,
   geminiRequest: any,
-  model: string
+  model: string,
+  meta: CompletionMeta,
+  signal: AbortSignal
 ): Promise<any> {
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const geminiModel = genAI.getGenerativeModel({ 
-      model: model,
-      safetySettings: SAFETY_SETTINGS
-    });
-    
-    const result = await geminiModel.generateContent(geminiRequest);
-    const response = await result.response;
-    const text = response.text();
-    
-    return {
-      id: `chatcmpl-${Date.now()}`,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model,
-      choices: [{
-        index: 0,
-        message: {
-          role: 'assistant',
-          content: text
-        },
-        finish_reason: 'stop'
-      }],
-      usage: {
-        prompt_tokens: 0,
-        completion_tokens: 0,
-        total_tokens: 0
-      }
-    };
+    return await generateChatCompletion(apiKey, geminiRequest, model, meta, signal);
   } catch (error) {
     console.error(`Non-stream failed for key ${keyId}:`, error);
     throw error;
@@ -269,12 +203,11 @@ async function handleNonStream(
 }
 
 export default async function handler(request: Request): Promise<Response> {
-  const startTime = Date.now();
   let accessKeyId: string | null = null;
-  let geminiKeyId: string | null = null;
   let requestBody: any = null;
-  let responseStatusCode = 500;
-  let errorMessage: string | null = null;
+  
+  // 同一请求的所有响应（包括换 key 重试）共用一个 id，并通过 x-request-id 返回给客户端
+  const completionMeta = createCompletionMeta();
   
   // 获取IP地址
   const ip = request.headers.get('x-forwarded-for') || 
@@ -308,157 +241,56 @@ export default async function handler(request: Request): Promise<Response> {
     // 步骤 3: 获取流式传输配置
     const streamingConfig = await getStreamingConfig();
     
-    // 步骤 4: 获取所有可用的 Gemini Keys 进行轮询
-    const availableKeys = await getAllAvailableGeminiKeys();
-    console.log(`[EDGE] Starting with ${availableKeys.length} available keys`);
-    
+    // 步骤 4: 按 key 选择策略依次尝试可用的 Gemini Keys（跳过在该模型上冷却中的 key）
     const model = requestBody.model || 'gemini-pro';
     const isStream = requestBody.stream || false;
+    const includeUsage = requestBody.stream_options?.include_usage === true;
     const geminiRequest = await convertOpenAItoGemini(requestBody);
     
-    let lastError: any = null;
-    let triedKeys: string[] = [];
-    
-    // 轮询所有可用的key
-    for (const key of availableKeys) {
-      const keyStartTime = Date.now();
-      triedKeys.push(key.id);
-      geminiKeyId = key.id;
-      
-      console.log(`[EDGE] Trying key ${key.id} (${triedKeys.length}/${availableKeys.length})`);
-      
-      // 无论成功还是失败，都更新 Key 使用统计
-      updateKeyUsage(key.id).catch(console.error);
-      
-      try {
-        let result: Response | any;
-        
-        if (isStream) {
-          // 客户端请求流式传输
-          if (streamingConfig.enabled && !streamingConfig.fake_stream_enabled) {
-            // 真实流式传输模式
-            console.log(`[EDGE] Using real stream mode for key ${key.id}`);
-            result = await handleRealStream(key.id, key.api_key, geminiRequest, model);
-          } else if (!streamingConfig.enabled && streamingConfig.fake_stream_enabled) {
-            // 伪装流式传输模式
-            console.log(`[EDGE] Using fake stream mode for key ${key.id}`);
-            result = await handleFakeStream(key.id, key.api_key, geminiRequest, model);
-          } else if (!streamingConfig.enabled && !streamingConfig.fake_stream_enabled) {
-            // 流式传输被禁用，降级到非流式
-            console.log(`[EDGE] Stream disabled, using non-stream mode for key ${key.id}`);
-            result = await handleNonStream(key.id, key.api_key, geminiRequest, model);
-          } else {
-            // 配置冲突（两者都启用），优先使用真实流式
-            console.log(`[EDGE] Config conflict detected, defaulting to real stream for key ${key.id}`);
-            result = await handleRealStream(key.id, key.api_key, geminiRequest, model);
-          }
-        } else {
-          // 客户端请求非流式传输
-          console.log(`[EDGE] Using non-stream mode for key ${key.id}`);
-          result = await handleNonStream(key.id, key.api_key, geminiRequest, model);
-        }
-        
-        const keyDuration = Date.now() - keyStartTime;
-        
-        // 成功！记录成功日志
-        console.log(`[EDGE] Key ${key.id} succeeded!`);
-        
-        // 记录成功的API调用日志
-        logApiCall({
-          ip_address: ip,
-          access_key_id: accessKeyId || undefined,
-          gemini_key_id: key.id,
-          model_requested: requestBody?.model,
-          response_status_code: 200,
-          duration_ms: keyDuration,
-          is_stream: isStream,
-          error_message: undefined,
-        }).catch(console.error);
-        
-        responseStatusCode = 200;
-        
-        if (result instanceof Response) {
-          // 流式响应
-          return result;
-        } else {
-          // 非流式响应
-          return new Response(JSON.stringify(result), {
-            status: 200,
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          });
-        }
-      } catch (error) {
-        // 失败，记录错误和失败日志
-        lastError = error;
-        const errorMsg = (error as any)?.message || (error as any)?.toString() || '';
-        console.log(`[EDGE] Key ${key.id} failed: ${errorMsg}`);
-        
-        const keyDuration = Date.now() - keyStartTime;
-        
-        // 记录失败的API调用日志
-        logApiCall({
-          ip_address: ip,
-          access_key_id: accessKeyId || undefined,
-          gemini_key_id: key.id,
-          model_requested: requestBody?.model,
-          response_status_code: errorMsg.includes('quota') ? 429 : 
-                               errorMsg.includes('API_KEY_INVALID') ? 401 : 
-                               errorMsg.includes('Not Found') ? 404 : 500,
-          duration_ms: keyDuration,
-          is_stream: isStream,
-          error_message: errorMsg,
-        }).catch(console.error);
-        
-        // 检查是否为可重试的错误
-        if (isRetryableError(error)) {
-          console.log(`[EDGE] Key ${key.id} failed with retryable error, trying next key...`);
-          
-          // 如果是API key相关错误，标记为无效
-          if (errorMsg.includes('API_KEY_INVALID') || 
-              errorMsg.includes('Invalid API key') ||
-              errorMsg.includes('API key not valid')) {
-            markKeyAsInvalid(key.id, errorMsg).catch(console.error);
-          }
-          
-          continue; // 尝试下一个key
-        } else {
-          // 非可重试错误，直接返回
-          console.log(`[EDGE] Key ${key.id} failed with non-retryable error, stopping retry`);
-          break;
+    const response = await callWithKeyFailover({
+      request_id: completionMeta.id,
+      ip_address: ip,
+      access_key_id: accessKeyId || undefined,
+      model_requested: model,
+      is_stream: isStream,
+    }, '[EDGE]', async (key, logSuccess, signal) => {
+      if (isStream) {
+        // 客户端请求流式传输，日志在流结束时记录（以便带上 token 用量）
+        if (streamingConfig.enabled && !streamingConfig.fake_stream_enabled) {
+          // 真实流式传输模式
+          console.log(`[EDGE] Using real stream mode for key ${key.id}`);
+          return { result: await handleRealStream(key.id, key.api_key, geminiRequest, model, includeUsage, completionMeta, logSuccess, signal), deferLog: true };
+        } else if (!streamingConfig.enabled && streamingConfig.fake_stream_enabled) {
+          // 伪装流式传输模式
+          console.log(`[EDGE] Using fake stream mode for key ${key.id}`);
+          return { result: await handleFakeStream(key.id, key.api_key, geminiRequest, model, includeUsage, completionMeta, logSuccess, signal), deferLog: true };
+        } else if (streamingConfig.enabled && streamingConfig.fake_stream_enabled) {
+          // 配置冲突（两者都启用），优先使用真实流式
+          console.log(`[EDGE] Config conflict detected, defaulting to real stream for key ${key.id}`);
+          return { result: await handleRealStream(key.id, key.api_key, geminiRequest, model, includeUsage, completionMeta, logSuccess, signal), deferLog: true };
         }
-      }
-    }
-    
-    // 所有key都失败了
-    console.log(`[EDGE] All ${triedKeys.length} keys failed. Last error:`, lastError);
-    
-    let apiError: ApiError;
-    if (lastError instanceof ApiError) {
-      apiError = lastError;
-    } else {
-      // 根据最后的错误类型决定返回的错误码
-      const errorMsg = (lastError as any)?.message || (lastError as any)?.toString() || '';
-      if (errorMsg.includes('quota') || errorMsg.includes('QUOTA_EXCEEDED')) {
-        apiError = new ApiError(429, 'All API keys have exceeded quota limits');
-      } else if (errorMsg.includes('API_KEY_INVALID') || errorMsg.includes('Invalid API key')) {
-        apiError = new ApiError(401, 'All API keys are invalid');
+        // 流式传输被禁用，降级到非流式
+        console.log(`[EDGE] Stream disabled, using non-stream mode for key ${key.id}`);
       } else {
-        apiError = new ApiError(503, `All ${triedKeys.length} API keys failed. Last error: ${errorMsg}`);
+        // 客户端请求非流式传输
+        console.log(`[EDGE] Using non-stream mode for key ${key.id}`);
       }
-    }
-    
-    responseStatusCode = apiError.statusCode;
-    errorMessage = apiError.message;
-    
-    return new Response(JSON.stringify(apiError.toJSON()), {
-      status: apiError.statusCode,
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      
+      const completion = await handleNonStream(key.id, key.api_key, geminiRequest, model, completionMeta, signal);
+      return {
+        result: new Response(JSON.stringify(completion), {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'x-request-id': completionMeta.id,
+          },
+        }),
+        usage: completion.usage,
+      };
     });
     
+    return response;
+    
   } catch (error) {
     console.error('Edge API Error:', error);
     
@@ -469,13 +301,12 @@ export default async function handler(request: Request): Promise<Response> {
       apiError = new ApiError(500);
     }
     
-    responseStatusCode = apiError.statusCode;
-    errorMessage = apiError.message;
-    
     return new Response(JSON.stringify(apiError.toJSON()), {
       status: apiError.statusCode,
       headers: {
         'Content-Type': 'application/json',
+        'x-request-id': completionMeta.id,
+        ...apiError.headers,
       },
     });
   }
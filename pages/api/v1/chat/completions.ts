@@ -1,59 +1,23 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
-import { checkRateLimit } from '@/lib/rate-limiter';
-import { getAllAvailableGeminiKeys, validateAccessKey, updateKeyUsage, markKeyAsInvalid } from '@/lib/key-manager';
-import { logApiCall } from '@/lib/logging';
-import { convertOpenAItoGemini, convertGeminiStreamToOpenAI } from '@/lib/converter';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { validateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover, LogSuccess } from '@/lib/failover';
+import { generateChatCompletion } from '@/lib/chat-completions';
+import { convertOpenAItoGemini, convertGeminiStreamToOpenAI, createCompletionMeta, createStreamFinishChunk, createStreamState, createStreamUsageChunk, convertUsageMetadata, getPromptBlockError, CompletionMeta, CompletionUsage } from '@/lib/converter';
 import { getStreamingConfig } from '@/lib/settings-manager';
-import { ApiError } from '@/lib/config';
+import { ApiError, SAFETY_SETTINGS } from '@/lib/config';
 
-// 正确的安全设置类型
-const SAFETY_SETTINGS = [
-  {
-    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-];
+// 流式响应的第一个 chunk 已读取，剩余部分在换 key 循环之外写给客户端
+interface PendingStream {
+  iterator: AsyncIterator<any>;
+  firstChunk: IteratorResult<any>;
+}
 
-// 判断是否为可重试的错误
-function isRetryableError(error: any): boolean {
-  if (!error) return false;
-  
-  const errorMessage = error.message || error.toString();
-  const errorCode = error.code || error.status;
-  
-  // 明确的客户端错误 - 不可重试（这些错误换key也不会成功）
-  // 401 Unauthorized - 认证问题
-  if (errorCode === 401) {
-    return false;
-  }
-  
-  // 403 Forbidden - 权限问题（但API key相关的除外）
-  if (errorCode === 403 && !errorMessage.includes('API key') && !errorMessage.includes('API_KEY')) {
-    return false;
-  }
-  
-  // 其他所有错误都认为是可重试的，包括：
-  // - API key 相关错误 (400, 401, 403)
-  // - 配额相关错误 (429)
-  // - 服务器错误 (500, 502, 503)
-  // - 模型不存在错误 (400)
-  // - 参数错误 (400) - 可能某些key支持不同的参数
-  // - 网络错误
-  // - 其他未知错误
-  return true;
+// 换 key 循环的结果：非流式为完整响应，流式为待写出的流及其成功日志回调
+interface ChatAttemptResult {
+  response?: any;
+  stream?: PendingStream;
+  logSuccess?: LogSuccess;
 }
 
 // 使用指定key进行API调用
@@ -63,80 +27,90 @@ async function callGeminiWithKey(
   geminiRequest: any, 
   model: string, 
   isStream: boolean,
-  res: NextApiResponse
-): Promise<{ success: boolean; response?: any; error?: any }> {
+  meta: CompletionMeta,
+  signal: AbortSignal
+): Promise<{ response?: any; stream?: PendingStream; usage?: CompletionUsage }> {
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const geminiModel = genAI.getGenerativeModel({ 
-      model: model,
-      safetySettings: SAFETY_SETTINGS
-    });
-    
     if (isStream) {
       // 流式响应
-      const result = await geminiModel.generateContentStream(geminiRequest);
-      
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
+      const genAI = new GoogleGenerativeAI(apiKey);
+      const geminiModel = genAI.getGenerativeModel({ 
+        model: model,
+        safetySettings: SAFETY_SETTINGS
       });
+      const result = await geminiModel.generateContentStream(geminiRequest, { signal });
       
-      for await (const chunk of result.stream) {
-        const text = chunk.text();
-        if (text) {
-          const openaiChunk = convertGeminiStreamToOpenAI({ text }, model);
-          const sseData = `data: ${JSON.stringify(openaiChunk)}\n\n`;
-          res.write(sseData);
-        }
+      // 先读取第一个 chunk，请求被拦截时在发送响应头之前返回错误
+      const iterator = result.stream[Symbol.asyncIterator]();
+      const firstChunk = await iterator.next();
+      const blockError = firstChunk.done ? null : getPromptBlockError(firstChunk.value);
+      if (blockError) {
+        throw blockError;
       }
       
-      // 发送结束标记
-      res.write('data: [DONE]\n\n');
-      res.end();
-      
-      return { success: true };
+      return { stream: { iterator, firstChunk } };
     } else {
       // 非流式响应
-      const result = await geminiModel.generateContent(geminiRequest);
-      const response = await result.response;
-      const text = response.text();
+      const openaiResponse = await generateChatCompletion(apiKey, geminiRequest, model, meta, signal);
       
-      const openaiResponse = {
-        id: `chatcmpl-${Date.now()}`,
-        object: 'chat.completion',
-        created: Math.floor(Date.now() / 1000),
-        model,
-        choices: [{
-          index: 0,
-          message: {
-            role: 'assistant',
-            content: text
-          },
-          finish_reason: 'stop'
-        }],
-        usage: {
-          prompt_tokens: 0,
-          completion_tokens: 0,
-          total_tokens: 0
-        }
-      };
-      
-      return { success: true, response: openaiResponse };
+      return { response: openaiResponse, usage: openaiResponse.usage };
     }
   } catch (error) {
     console.error(`Key ${keyId} failed:`, error);
-    return { success: false, error };
+    throw error;
+  }
+}
+
+// 将流式响应写给客户端，返回 token 用量
+async function writeStream(
+  stream: PendingStream,
+  model: string,
+  includeUsage: boolean,
+  meta: CompletionMeta,
+  res: NextApiResponse
+): Promise<CompletionUsage> {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  
+  const streamState = createStreamState(meta);
+  try {
+    let current = stream.firstChunk;
+    while (!current.done) {
+      const openaiChunk = convertGeminiStreamToOpenAI(current.value, model, streamState);
+      if (openaiChunk) {
+        const sseData = `data: ${JSON.stringify(openaiChunk)}\n\n`;
+        res.write(sseData);
+      }
+      current = await stream.iterator.next();
+    }
+    
+    // 发送结束标记
+    res.write(`data: ${JSON.stringify(createStreamFinishChunk(model, streamState))}\n\n`);
+    if (includeUsage) {
+      res.write(`data: ${JSON.stringify(createStreamUsageChunk(model, streamState))}\n\n`);
+    }
+  } catch (streamError) {
+    // 响应头已经发出，只能在流中返回错误
+    console.error('Stream processing error:', streamError);
+    const errorMessage = (streamError as any)?.message || 'Stream processing error';
+    res.write(`data: ${JSON.stringify(new ApiError(500, `Stream interrupted: ${errorMessage}`).toJSON())}\n\n`);
   }
+  res.write('data: [DONE]\n\n');
+  res.end();
+  
+  return convertUsageMetadata(streamState.usageMetadata);
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const startTime = Date.now();
   let accessKeyId: string | null = null;
-  let geminiKeyId: string | null = null;
   let requestBody: any = null;
-  let responseStatusCode = 500;
-  let errorMessage: string | null = null;
+  
+  // 同一请求的所有响应（包括换 key 重试）共用一个 id，并通过 x-request-id 返回给客户端
+  const completionMeta = createCompletionMeta();
+  res.setHeader('x-request-id', completionMeta.id);
   
   // 获取IP地址
   const forwardedFor = req.headers['x-forwarded-for'];
@@ -214,6 +188,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
               'Access-Control-Allow-Headers': 'Content-Type, Authorization',
               'X-Accel-Buffering': 'no',
+              'x-request-id': response.headers.get('x-request-id') || completionMeta.id,
             });
             
             if (response.body) {
@@ -233,6 +208,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           } else {
             // 非流式响应，直接返回JSON
             const result = await response.json();
+            res.setHeader('x-request-id', response.headers.get('x-request-id') || completionMeta.id);
+            const retryAfter = response.headers.get('retry-after');
+            if (retryAfter) {
+              res.setHeader('Retry-After', retryAfter);
+            }
             return res.status(response.status).json(result);
           }
         } catch (edgeError) {
@@ -243,123 +223,39 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
     }
     
-    // 步骤 4: 获取所有可用的 Gemini Keys 进行轮询
-    const availableKeys = await getAllAvailableGeminiKeys();
-    console.log(`[POLLING] Starting with ${availableKeys.length} available keys`);
-    
+    // 步骤 4: 按 key 选择策略依次尝试可用的 Gemini Keys（跳过在该模型上冷却中的 key）
     const model = requestBody.model || 'gemini-pro';
     const geminiRequest = await convertOpenAItoGemini(requestBody);
     
-    let lastError: any = null;
-    let triedKeys: string[] = [];
-    
-    // 轮询所有可用的key
-    for (const key of availableKeys) {
-      const keyStartTime = Date.now();
-      triedKeys.push(key.id);
-      geminiKeyId = key.id;
-      
-      console.log(`[POLLING] Trying key ${key.id} (${triedKeys.length}/${availableKeys.length})`);
-      
-      // 无论成功还是失败，都更新 Key 使用统计
-      updateKeyUsage(key.id).catch(console.error);
-      
-      const result = await callGeminiWithKey(
+    const result = await callWithKeyFailover<ChatAttemptResult>({
+      request_id: completionMeta.id,
+      ip_address: ip || '127.0.0.1',
+      access_key_id: accessKeyId || undefined,
+      model_requested: model,
+      is_stream: isStream,
+    }, '[POLLING]', async (key, logSuccess, signal) => {
+      const { response, stream, usage } = await callGeminiWithKey(
         key.id,
         key.api_key,
         geminiRequest,
         model,
         isStream,
-        res
+        completionMeta,
+        signal
       );
-      
-      const keyDuration = Date.now() - keyStartTime;
-      
-      if (result.success) {
-        // 成功！记录成功日志
-        console.log(`[POLLING] Key ${key.id} succeeded!`);
-        
-        // 记录成功的API调用日志
-        logApiCall({
-          ip_address: ip || '127.0.0.1',
-          access_key_id: accessKeyId || undefined,
-          gemini_key_id: key.id,
-          model_requested: requestBody?.model,
-          response_status_code: 200,
-          duration_ms: keyDuration,
-          is_stream: requestBody?.stream || false,
-          error_message: undefined,
-        }).catch(console.error);
-        
-        responseStatusCode = 200;
-        
-        if (!isStream && result.response) {
-          return res.status(200).json(result.response);
-        }
-        // 流式响应已经在 callGeminiWithKey 中处理完毕
-        return;
-      } else {
-        // 失败，记录错误和失败日志
-        lastError = result.error;
-        const errorMsg = result.error?.message || result.error?.toString() || '';
-        console.log(`[POLLING] Key ${key.id} failed: ${errorMsg}`);
-        
-        // 记录失败的API调用日志
-        logApiCall({
-          ip_address: ip || '127.0.0.1',
-          access_key_id: accessKeyId || undefined,
-          gemini_key_id: key.id,
-          model_requested: requestBody?.model,
-          response_status_code: errorMsg.includes('quota') ? 429 : 
-                               errorMsg.includes('API_KEY_INVALID') ? 401 : 
-                               errorMsg.includes('Not Found') ? 404 : 500,
-          duration_ms: keyDuration,
-          is_stream: requestBody?.stream || false,
-          error_message: errorMsg,
-        }).catch(console.error);
-        
-        // 检查是否为可重试的错误
-        if (isRetryableError(result.error)) {
-          console.log(`[POLLING] Key ${key.id} failed with retryable error, trying next key...`);
-          
-          // 如果是API key相关错误，标记为无效
-          if (errorMsg.includes('API_KEY_INVALID') || 
-              errorMsg.includes('Invalid API key') ||
-              errorMsg.includes('API key not valid')) {
-            markKeyAsInvalid(key.id, errorMsg).catch(console.error);
-          }
-          
-          continue; // 尝试下一个key
-        } else {
-          // 非可重试错误，直接返回
-          console.log(`[POLLING] Key ${key.id} failed with non-retryable error, stopping retry`);
-          break;
-        }
+      if (stream) {
+        // 流式响应拿到第一个 chunk 即视为成功，日志在流写完后带上 token 用量记录
+        return { result: { stream, logSuccess }, deferLog: true };
       }
-    }
-    
-    // 所有key都失败了
-    console.log(`[POLLING] All ${triedKeys.length} keys failed. Last error:`, lastError);
+      return { result: { response }, usage };
+    });
     
-    let apiError: ApiError;
-    if (lastError instanceof ApiError) {
-      apiError = lastError;
-    } else {
-      // 根据最后的错误类型决定返回的错误码
-      const errorMsg = lastError?.message || lastError?.toString() || '';
-      if (errorMsg.includes('quota') || errorMsg.includes('QUOTA_EXCEEDED')) {
-        apiError = new ApiError(429, 'All API keys have exceeded quota limits');
-      } else if (errorMsg.includes('API_KEY_INVALID') || errorMsg.includes('Invalid API key')) {
-        apiError = new ApiError(401, 'All API keys are invalid');
-      } else {
-        apiError = new ApiError(503, `All ${triedKeys.length} API keys failed. Last error: ${errorMsg}`);
-      }
+    if (result.stream) {
+      const usage = await writeStream(result.stream, model, requestBody.stream_options?.include_usage === true, completionMeta, res);
+      await result.logSuccess?.(usage);
+      return;
     }
-    
-    responseStatusCode = apiError.statusCode;
-    errorMessage = apiError.message;
-    
-    return res.status(apiError.statusCode).json(apiError.toJSON());
+    return res.status(200).json(result.response);
     
   } catch (error) {
     console.error('API Error:', error);
@@ -371,13 +267,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       apiError = new ApiError(500);
     }
     
-    responseStatusCode = apiError.statusCode;
-    errorMessage = apiError.message;
-    
+    Object.entries(apiError.headers).forEach(([name, value]) => res.setHeader(name, value));
     return res.status(apiError.statusCode).json(apiError.toJSON());
-    
-  } finally {
-    // 轮询过程中已经为每次Key尝试记录了详细日志
-    // 这里不需要再次记录
   }
 }
\ No newline at end of file
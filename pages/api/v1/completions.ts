@@ -0,0 +1,219 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { convertUsageMetadata, createFakeStreamChunks, getPromptBlockError } from '@/lib/converter';
+import {
+  parseTextCompletionRequest,
+  convertPromptToGemini,
+  createTextCompletionMeta,
+  createTextCompletionResponse,
+  createTextCompletionStreamState,
+  createEchoChunk,
+  convertGeminiStreamToTextCompletion,
+  createTextCompletionFinishChunk,
+  createTextCompletionUsageChunk,
+} from '@/lib/text-completions';
+import { getStreamingConfig } from '@/lib/settings-manager';
+import { ApiError, SAFETY_SETTINGS, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 伪装流式传输时相邻 chunk 之间的延迟
+const FAKE_STREAM_DELAY_MS = 30;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 旧版文本补全接口：每个 prompt 转换为一次单轮 Gemini 请求
+export default async function handler(request: Request): Promise<Response> {
+  // 同一请求的所有响应（包括换 key 重试）共用一个 id，并通过 x-request-id 返回给客户端
+  const meta = createTextCompletionMeta();
+
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    let requestBody: any;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      throw new ApiError(400);
+    }
+    
+    const model = requestBody.model || 'gemini-pro';
+    const completionRequest = parseTextCompletionRequest(requestBody);
+    const includeUsage = requestBody.stream_options?.include_usage === true;
+    const geminiRequests = await Promise.all(
+      completionRequest.prompts.map((prompt) => convertPromptToGemini({ ...requestBody, model }, prompt, completionRequest))
+    );
+    
+    // 流式传输配置与聊天接口一致：两者都关闭时降级为非流式
+    const streamingConfig = await getStreamingConfig();
+    const isStream = requestBody.stream === true &&
+      (streamingConfig.enabled || streamingConfig.fake_stream_enabled);
+    const useFakeStream = !streamingConfig.enabled && streamingConfig.fake_stream_enabled;
+    
+    return await callWithKeyFailover({
+      request_id: meta.id,
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: model,
+      is_stream: isStream,
+    }, '[COMPLETIONS]', async (key, logSuccess, signal) => {
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({
+        model: model,
+        safetySettings: SAFETY_SETTINGS
+      });
+      
+      if (!isStream) {
+        // 多个 prompt 使用同一个 key 并发请求
+        const responses = await Promise.all(geminiRequests.map(async (geminiRequest) => {
+          const result = await geminiModel.generateContent(geminiRequest, { signal });
+          const response = await result.response;
+          const blockError = getPromptBlockError(response);
+          if (blockError) {
+            throw new ApiError(400, blockError.message, 'prompt', 'content_filter');
+          }
+          return response;
+        }));
+        const completion = createTextCompletionResponse(responses, completionRequest, model, meta);
+        
+        return {
+          result: new Response(JSON.stringify(completion), {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              'x-request-id': meta.id,
+              ...CORS_HEADERS,
+            },
+          }),
+          usage: completion.usage,
+        };
+      }
+      
+      // 流式只支持单个 prompt，上游 chunk 统一通过 nextChunk 读取
+      let nextChunk: () => Promise<any | null>;
+      if (useFakeStream) {
+        // 伪装流式：先完整获取响应，再拆成 chunk 逐个发送
+        const result = await geminiModel.generateContent(geminiRequests[0], { signal });
+        const response = await result.response;
+        const blockError = getPromptBlockError(response);
+        if (blockError) {
+          throw new ApiError(400, blockError.message, 'prompt', 'content_filter');
+        }
+        
+        const pendingChunks = createFakeStreamChunks(response);
+        pendingChunks.push({ usageMetadata: response.usageMetadata });
+        nextChunk = async () => {
+          await sleep(FAKE_STREAM_DELAY_MS);
+          return pendingChunks.shift() ?? null;
+        };
+      } else {
+        const result = await geminiModel.generateContentStream(geminiRequests[0], { signal });
+        
+        // 先读取第一个 chunk，请求被拦截时在返回流之前抛出错误
+        const iterator = result.stream[Symbol.asyncIterator]();
+        const firstChunk = await iterator.next();
+        const blockError = firstChunk.done ? null : getPromptBlockError(firstChunk.value);
+        if (blockError) {
+          throw new ApiError(400, blockError.message, 'prompt', 'content_filter');
+        }
+        
+        let pendingFirst: IteratorResult<any> | null = firstChunk;
+        nextChunk = async () => {
+          const current = pendingFirst || await iterator.next();
+          pendingFirst = null;
+          return current.done ? null : current.value;
+        };
+      }
+      
+      const encoder = new TextEncoder();
+      const streamState = createTextCompletionStreamState(meta, completionRequest);
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (data: any) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          
+          // 发送初始连接确认
+          controller.enqueue(encoder.encode(': connected\n\n'));
+          
+          try {
+            if (completionRequest.echo) {
+              send(createEchoChunk(model, streamState, completionRequest));
+            }
+            
+            let chunk = await nextChunk();
+            while (chunk) {
+              const textChunk = convertGeminiStreamToTextCompletion(chunk, model, streamState, completionRequest);
+              if (textChunk) {
+                send(textChunk);
+              }
+              chunk = await nextChunk();
+            }
+            
+            // 发送结束标记
+            send(createTextCompletionFinishChunk(model, streamState));
+            if (includeUsage) {
+              send(createTextCompletionUsageChunk(model, streamState));
+            }
+          } catch (streamError) {
+            // 响应已经开始，只能在流中返回错误
+            console.error('Stream processing error:', streamError);
+            const errorMessage = (streamError as any)?.message || 'Stream processing error';
+            send(new ApiError(500, `Stream interrupted: ${errorMessage}`).toJSON());
+          }
+          
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          await logSuccess(convertUsageMetadata(streamState.usageMetadata)).catch(console.error);
+          controller.close();
+        }
+      });
+      
+      return {
+        result: new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+            'x-request-id': meta.id,
+            ...CORS_HEADERS,
+          },
+        }),
+        deferLog: true,
+      };
+    });
+    
+  } catch (error) {
+    console.error('Completions API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-request-id': meta.id,
+        ...CORS_HEADERS,
+        ...apiError.headers,
+      },
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { parseEmbeddingRequest, createEmbedContentRequest, chunkEmbeddingInputs, createEmbeddingResponse, estimateEmbeddingTokens } from '@/lib/embeddings';
+import { ApiError } from '@/lib/config';
+
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-004';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // 换 key 重试的日志共用一个 request id，并通过 x-request-id 返回给客户端
+  const requestId = `emb-${crypto.randomUUID().replace(/-/g, '')}`;
+  res.setHeader('x-request-id', requestId);
+  
+  // 获取IP地址
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const ip = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor || req.socket.remoteAddress || '127.0.0.1';
+  
+  try {
+    // 处理 CORS 预检请求
+    if (req.method === 'OPTIONS') {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.setHeader('Access-Control-Max-Age', '86400');
+      return res.status(200).end();
+    }
+    
+    if (req.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(req.headers.authorization);
+    
+    const model = req.body?.model || DEFAULT_EMBEDDING_MODEL;
+    const { inputs, isBatch, dimensions, encodingFormat } = parseEmbeddingRequest(req.body);
+    
+    const response = await callWithKeyFailover({
+      request_id: requestId,
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: model,
+      is_stream: false,
+    }, '[EMBEDDINGS]', async (key, _logSuccess, signal) => {
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({ model });
+      
+      const embeddings: number[][] = [];
+      if (isBatch) {
+        // 数组输入使用 batchEmbedContents，超过单次上限时分批请求
+        for (const batch of chunkEmbeddingInputs(inputs)) {
+          const result = await geminiModel.batchEmbedContents({
+            requests: batch.map((text) => createEmbedContentRequest(text, dimensions)),
+          }, { signal });
+          embeddings.push(...result.embeddings.map((embedding) => embedding.values));
+        }
+      } else {
+        const result = await geminiModel.embedContent(createEmbedContentRequest(inputs[0], dimensions), { signal });
+        embeddings.push(result.embedding.values);
+      }
+      
+      const result = createEmbeddingResponse(embeddings, model, encodingFormat, estimateEmbeddingTokens(inputs));
+      return { result, usage: result.usage };
+    });
+    
+    return res.status(200).json(response);
+    
+  } catch (error) {
+    console.error('Embeddings API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    Object.entries(apiError.headers).forEach(([name, value]) => res.setHeader(name, value));
+    return res.status(apiError.statusCode).json(apiError.toJSON());
+  }
+}
@@ -0,0 +1,47 @@
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { getBatchFile } from '@/lib/batches';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 下载文件内容（批处理的输入文件或结果文件）
+export default async function handler(request: Request): Promise<Response> {
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'GET') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    const segments = new URL(request.url).pathname.split('/');
+    const fileId = decodeURIComponent(segments[segments.length - 2] || '');
+    
+    const file = await getBatchFile(fileId, accessKeyId, true);
+    if (!file) {
+      throw new ApiError(404, `File with id '${fileId}' not found`);
+    }
+    return new Response(file.content, {
+      status: 200,
+      headers: { 'Content-Type': 'application/jsonl; charset=utf-8', ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Files API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+  }
+}
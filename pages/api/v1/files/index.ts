@@ -0,0 +1,68 @@
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { createBatchFile, listBatchFiles, MAX_BATCH_FILE_BYTES } from '@/lib/batches';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 上传批处理输入文件（purpose=batch）或列出已有文件
+export default async function handler(request: Request): Promise<Response> {
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    if (request.method === 'GET') {
+      const files = await listBatchFiles(accessKeyId, new URL(request.url).searchParams.get('purpose'));
+      return new Response(JSON.stringify({ object: 'list', data: files, has_more: false }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch (error) {
+      throw new ApiError(400, 'Invalid request body, expected multipart/form-data');
+    }
+    
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      throw new ApiError(400, "'file' is required", 'file');
+    }
+    if (formData.get('purpose') !== 'batch') {
+      throw new ApiError(400, "Unsupported 'purpose', only 'batch' is supported", 'purpose');
+    }
+    if (file.size > MAX_BATCH_FILE_BYTES) {
+      throw new ApiError(400, `File is too large, the maximum size is ${MAX_BATCH_FILE_BYTES / 1024 / 1024}MB`, 'file');
+    }
+    
+    const fileObject = await createBatchFile(accessKeyId, file.name || 'batch.jsonl', 'batch', await file.text());
+    return new Response(JSON.stringify(fileObject), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Files API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+  }
+}
@@ -0,0 +1,127 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { convertUsageMetadata, getPromptBlockError } from '@/lib/converter';
+import {
+  DEFAULT_IMAGE_MODEL,
+  parseImageGenerationRequest,
+  isImagenModel,
+  createImagenRequest,
+  extractImagenImages,
+  createGeminiImageRequest,
+  extractGeminiImages,
+  createImagesResponse,
+} from '@/lib/images';
+import { GeminiUpstreamError } from '@/lib/upstream-errors';
+import { ApiError, SAFETY_SETTINGS, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+// SDK 不支持 Imagen 的 predict 接口，直接调用 REST API；错误信息格式与 SDK 保持一致，便于换 key 判断
+async function callImagenPredict(apiKey: string, model: string, body: any, signal?: AbortSignal): Promise<any> {
+  const response = await fetch(`${GEMINI_API_BASE}/models/${encodeURIComponent(model)}:predict`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': apiKey,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new GeminiUpstreamError(response.status, response.statusText, await response.text());
+  }
+  return response.json();
+}
+
+export default async function handler(request: Request): Promise<Response> {
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    let requestBody: any;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      throw new ApiError(400);
+    }
+    
+    const model = requestBody.model || DEFAULT_IMAGE_MODEL;
+    const imageRequest = parseImageGenerationRequest(requestBody);
+    
+    const response = await callWithKeyFailover({
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: model,
+      is_stream: false,
+    }, '[IMAGES]', async (key, _logSuccess, signal) => {
+      if (isImagenModel(model)) {
+        const predictResponse = await callImagenPredict(key.api_key, model, createImagenRequest(imageRequest), signal);
+        return { result: createImagesResponse(extractImagenImages(predictResponse), imageRequest.responseFormat) };
+      }
+      
+      // Gemini 图片模型每次只生成一张，n 张图片并发请求
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({
+        model: model,
+        safetySettings: SAFETY_SETTINGS
+      });
+      const geminiResponses = await Promise.all(Array.from({ length: imageRequest.n }, async () => {
+        const result = await geminiModel.generateContent(createGeminiImageRequest(imageRequest), { signal });
+        const geminiResponse = await result.response;
+        const blockError = getPromptBlockError(geminiResponse);
+        if (blockError) {
+          throw new ApiError(400, blockError.message, 'prompt', 'content_filter');
+        }
+        return geminiResponse;
+      }));
+      
+      const images = geminiResponses.flatMap((geminiResponse) => extractGeminiImages(geminiResponse).slice(0, 1));
+      const usages = geminiResponses.map((geminiResponse) => convertUsageMetadata(geminiResponse.usageMetadata));
+      return {
+        result: createImagesResponse(images, imageRequest.responseFormat),
+        usage: {
+          prompt_tokens: usages.reduce((sum, usage) => sum + usage.prompt_tokens, 0),
+          completion_tokens: usages.reduce((sum, usage) => sum + usage.completion_tokens, 0),
+          total_tokens: usages.reduce((sum, usage) => sum + usage.total_tokens, 0),
+        },
+      };
+    });
+    
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Images API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS, ...apiError.headers },
+    });
+  }
+}
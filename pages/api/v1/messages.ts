@@ -0,0 +1,185 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { validateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { convertOpenAItoGemini, convertUsageMetadata, getPromptBlockError } from '@/lib/converter';
+import {
+  convertAnthropicToOpenAI,
+  createAnthropicMessage,
+  createAnthropicStreamState,
+  createMessageStartEvent,
+  convertGeminiChunkToAnthropicEvents,
+  createAnthropicStreamEndEvents,
+  formatAnthropicEvent,
+  generateAnthropicId,
+  getStopSequences,
+  toAnthropicError,
+} from '@/lib/anthropic';
+import { ApiError, SAFETY_SETTINGS, CORS_HEADERS as DEFAULT_CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+const CORS_HEADERS = {
+  ...DEFAULT_CORS_HEADERS,
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-api-key, anthropic-version, anthropic-beta',
+};
+
+// Anthropic 客户端使用 x-api-key 传递密钥，同时兼容 Bearer 形式
+function getAccessKey(request: Request): string | null {
+  const authHeader = request.headers.get('authorization');
+  return request.headers.get('x-api-key') ||
+    (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null);
+}
+
+export default async function handler(request: Request): Promise<Response> {
+  // 每个请求使用一个 message id，同时作为 request id 返回
+  const messageId = generateAnthropicId('msg');
+
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await validateAccessKey(getAccessKey(request) || '');
+    if (!accessKeyId) {
+      throw new ApiError(401);
+    }
+    
+    let requestBody: any;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      throw new ApiError(400);
+    }
+    
+    const openaiRequest = convertAnthropicToOpenAI(requestBody);
+    const stopSequences = getStopSequences(requestBody);
+    const model = openaiRequest.model;
+    const isStream = openaiRequest.stream;
+    const geminiRequest = await convertOpenAItoGemini(openaiRequest);
+    
+    return await callWithKeyFailover({
+      request_id: messageId,
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: model,
+      is_stream: isStream,
+    }, '[MESSAGES]', async (key, logSuccess, signal) => {
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({
+        model: model,
+        safetySettings: SAFETY_SETTINGS
+      });
+      
+      if (!isStream) {
+        const result = await geminiModel.generateContent(geminiRequest, { signal });
+        const response = await result.response;
+        const blockError = getPromptBlockError(response);
+        if (blockError) {
+          throw blockError;
+        }
+        
+        return {
+          result: new Response(JSON.stringify(createAnthropicMessage(response, model, messageId, stopSequences)), {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              'request-id': messageId,
+              'x-request-id': messageId,
+              ...CORS_HEADERS,
+            },
+          }),
+          usage: convertUsageMetadata(response.usageMetadata),
+        };
+      }
+      
+      const result = await geminiModel.generateContentStream(geminiRequest, { signal });
+      
+      // 先读取第一个 chunk，请求被拦截时在返回流之前抛出错误
+      const iterator = result.stream[Symbol.asyncIterator]();
+      const firstChunk = await iterator.next();
+      const blockError = firstChunk.done ? null : getPromptBlockError(firstChunk.value);
+      if (blockError) {
+        throw blockError;
+      }
+      
+      const encoder = new TextEncoder();
+      const streamState = createAnthropicStreamState(stopSequences);
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (events: string[]) => events.forEach((event) => controller.enqueue(encoder.encode(event)));
+          
+          send([createMessageStartEvent(messageId, model, firstChunk.value)]);
+          
+          try {
+            let current = firstChunk;
+            while (!current.done) {
+              send(convertGeminiChunkToAnthropicEvents(current.value, streamState));
+              if (streamState.stopSequence) {
+                // 命中 stop sequence 后不再读取上游
+                await iterator.return?.(undefined);
+                break;
+              }
+              current = await iterator.next();
+            }
+            send(createAnthropicStreamEndEvents(streamState));
+          } catch (streamError) {
+            // 响应已经开始，只能在流中返回错误
+            console.error('Stream processing error:', streamError);
+            const errorMessage = (streamError as any)?.message || 'Stream processing error';
+            const { error } = toAnthropicError(new ApiError(500, `Stream interrupted: ${errorMessage}`));
+            send([formatAnthropicEvent('error', { error })]);
+          }
+          
+          await logSuccess(convertUsageMetadata(streamState.usageMetadata)).catch(console.error);
+          controller.close();
+        }
+      });
+      
+      return {
+        result: new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+            'request-id': messageId,
+            'x-request-id': messageId,
+            ...CORS_HEADERS,
+          },
+        }),
+        deferLog: true,
+      };
+    });
+    
+  } catch (error) {
+    console.error('Messages API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(toAnthropicError(apiError)), {
+      status: apiError.statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'request-id': messageId,
+        'x-request-id': messageId,
+        ...CORS_HEADERS,
+        ...apiError.headers,
+      },
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { convertUsageMetadata, convertUserContentToParts } from '@/lib/converter';
+import { parseModerationRequest, createModerationRequest, createModerationResult, createModerationResponse } from '@/lib/moderations';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 内容审核：根据 Gemini 返回的安全评级生成 OpenAI moderation 结果
+export default async function handler(request: Request): Promise<Response> {
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    let requestBody: any;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      throw new ApiError(400);
+    }
+    
+    const moderationRequest = parseModerationRequest(requestBody);
+    const geminiRequests = await Promise.all(moderationRequest.inputs.map(async (input, index) => {
+      const parts = await convertUserContentToParts(input, moderationRequest.inputs.length > 1 ? `input[${index}]` : 'input');
+      return createModerationRequest(parts);
+    }));
+    
+    const response = await callWithKeyFailover({
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: moderationRequest.geminiModel,
+      is_stream: false,
+    }, '[MODERATIONS]', async (key, _logSuccess, signal) => {
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({ model: moderationRequest.geminiModel });
+      
+      // 被拦截的请求同样返回评级，不视为错误
+      const geminiResponses = await Promise.all(geminiRequests.map(async (geminiRequest) => {
+        const result = await geminiModel.generateContent(geminiRequest, { signal });
+        return result.response;
+      }));
+      
+      const usages = geminiResponses.map((geminiResponse) => convertUsageMetadata(geminiResponse.usageMetadata));
+      return {
+        result: createModerationResponse(
+          geminiResponses.map((geminiResponse, index) => createModerationResult(geminiResponse, moderationRequest.inputs[index])),
+          moderationRequest.model
+        ),
+        usage: {
+          prompt_tokens: usages.reduce((sum, usage) => sum + usage.prompt_tokens, 0),
+          completion_tokens: usages.reduce((sum, usage) => sum + usage.completion_tokens, 0),
+          total_tokens: usages.reduce((sum, usage) => sum + usage.total_tokens, 0),
+        },
+      };
+    });
+    
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+    
+  } catch (error) {
+    console.error('Moderations API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS, ...apiError.headers },
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { getStoredResponse, deleteStoredResponse } from '@/lib/responses';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 读取或删除已保存的响应
+export default async function handler(request: Request): Promise<Response> {
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    const responseId = decodeURIComponent(new URL(request.url).pathname.split('/').pop() || '');
+    
+    if (request.method === 'GET') {
+      const stored = await getStoredResponse(responseId, accessKeyId);
+      if (!stored) {
+        throw new ApiError(404, `Response with id '${responseId}' not found`);
+      }
+      return new Response(JSON.stringify(stored.response), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+      });
+    }
+    
+    if (request.method === 'DELETE') {
+      const deleted = await deleteStoredResponse(responseId, accessKeyId);
+      if (!deleted) {
+        throw new ApiError(404, `Response with id '${responseId}' not found`);
+      }
+      return new Response(JSON.stringify({ id: responseId, object: 'response', deleted: true }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+      });
+    }
+    
+    throw new ApiError(405, 'Method not allowed');
+    
+  } catch (error) {
+    console.error('Responses API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+  }
+}
@@ -0,0 +1,217 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import {
+  convertOpenAItoGemini,
+  convertGeminiStreamToOpenAI,
+  createCompletionResponse,
+  createStreamState,
+  convertUsageMetadata,
+  getPromptBlockError,
+  mapFinishReason,
+} from '@/lib/converter';
+import {
+  convertResponsesToOpenAI,
+  buildResponseObject,
+  convertMessageToOutputItems,
+  convertOutputItemsToMessage,
+  createResponsesStreamState,
+  convertChatChunkToResponseEvents,
+  createResponsesStreamEndEvents,
+  createResponsesStreamFailedEvents,
+  formatResponseEvent,
+  generateResponseId,
+  getStoredResponse,
+  getStoredConversation,
+  saveStoredResponse,
+  StoredResponse,
+  ResponseContext,
+} from '@/lib/responses';
+import { ApiError, SAFETY_SETTINGS, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+export default async function handler(request: Request): Promise<Response> {
+  const responseId = generateResponseId('resp');
+
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    let requestBody: any;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      throw new ApiError(400);
+    }
+    
+    // previous_response_id：还原截至上一轮的完整对话
+    let previous: StoredResponse | null = null;
+    let previousMessages: any[] = [];
+    if (requestBody.previous_response_id) {
+      previous = await getStoredResponse(requestBody.previous_response_id, accessKeyId);
+      if (!previous) {
+        throw new ApiError(404, `Previous response with id '${requestBody.previous_response_id}' not found`, 'previous_response_id');
+      }
+      previousMessages = await getStoredConversation(previous, accessKeyId);
+    }
+    
+    const { openaiRequest, inputMessages } = convertResponsesToOpenAI(requestBody, previousMessages);
+    const model = openaiRequest.model;
+    const isStream = openaiRequest.stream;
+    const shouldStore = requestBody.store !== false;
+    const geminiRequest = await convertOpenAItoGemini(openaiRequest);
+    
+    const context: ResponseContext = {
+      id: responseId,
+      createdAt: Math.floor(Date.now() / 1000),
+      model,
+      body: requestBody,
+    };
+    const meta = { id: responseId, created: context.createdAt };
+    
+    // 保存本轮结果，供下一轮 previous_response_id 使用
+    const storeResponse = async (output: any[], response: any) => {
+      if (shouldStore) {
+        await saveStoredResponse(responseId, accessKeyId, previous, [...inputMessages, convertOutputItemsToMessage(output)], response);
+      }
+    };
+    
+    return await callWithKeyFailover({
+      request_id: responseId,
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: model,
+      is_stream: isStream,
+    }, '[RESPONSES]', async (key, logSuccess, signal) => {
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({
+        model: model,
+        safetySettings: SAFETY_SETTINGS
+      });
+      
+      if (!isStream) {
+        const result = await geminiModel.generateContent(geminiRequest, { signal });
+        const completion = createCompletionResponse(await result.response, model, meta);
+        const choice = completion.choices[0];
+        const output = convertMessageToOutputItems(choice.message);
+        const response = buildResponseObject(context, output, choice.finish_reason, completion.usage);
+        await storeResponse(output, response);
+        
+        return {
+          result: new Response(JSON.stringify(response), {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              'x-request-id': responseId,
+              ...CORS_HEADERS,
+            },
+          }),
+          usage: completion.usage,
+        };
+      }
+      
+      const result = await geminiModel.generateContentStream(geminiRequest, { signal });
+      
+      // 先读取第一个 chunk，请求被拦截时在返回流之前抛出错误
+      const iterator = result.stream[Symbol.asyncIterator]();
+      const firstChunk = await iterator.next();
+      const blockError = firstChunk.done ? null : getPromptBlockError(firstChunk.value);
+      if (blockError) {
+        throw blockError;
+      }
+      
+      const encoder = new TextEncoder();
+      const chatState = createStreamState(meta);
+      const streamState = createResponsesStreamState();
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (events: string[]) => events.forEach((event) => controller.enqueue(encoder.encode(event)));
+          
+          const initialResponse = buildResponseObject(context, null);
+          send([
+            formatResponseEvent(streamState, 'response.created', { response: initialResponse }),
+            formatResponseEvent(streamState, 'response.in_progress', { response: initialResponse }),
+          ]);
+          
+          try {
+            let current = firstChunk;
+            while (!current.done) {
+              const chatChunk = convertGeminiStreamToOpenAI(current.value, model, chatState);
+              if (chatChunk) {
+                send(convertChatChunkToResponseEvents(chatChunk, streamState));
+              }
+              current = await iterator.next();
+            }
+            
+            const finishReason = mapFinishReason(chatState.finishReasons[0], chatState.toolCallCounts[0] > 0);
+            const { events, response } = createResponsesStreamEndEvents(
+              streamState, context, finishReason, convertUsageMetadata(chatState.usageMetadata)
+            );
+            send(events);
+            await storeResponse(streamState.output, response);
+          } catch (streamError) {
+            // 响应已经开始，只能在流中以 response.failed 结束，保存的响应同样标记为失败
+            console.error('Stream processing error:', streamError);
+            const errorMessage = (streamError as any)?.message || 'Stream processing error';
+            const { events, response } = createResponsesStreamFailedEvents(
+              streamState, context, `Stream interrupted: ${errorMessage}`, convertUsageMetadata(chatState.usageMetadata)
+            );
+            send(events);
+            await storeResponse(streamState.output, response);
+          }
+          
+          await logSuccess(convertUsageMetadata(chatState.usageMetadata)).catch(console.error);
+          controller.close();
+        }
+      });
+      
+      return {
+        result: new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+            'x-request-id': responseId,
+            ...CORS_HEADERS,
+          },
+        }),
+        deferLog: true,
+      };
+    });
+    
+  } catch (error) {
+    console.error('Responses API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-request-id': responseId,
+        ...CORS_HEADERS,
+        ...apiError.headers,
+      },
+    });
+  }
+}
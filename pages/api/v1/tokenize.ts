@@ -0,0 +1,122 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { convertOpenAItoGeminiWithMessageParts, createCompletionMeta } from '@/lib/converter';
+import { ApiError, CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+// 统计聊天请求的 prompt token 数：请求体与 chat completions 相同，不调用生成接口
+export default async function handler(request: Request): Promise<Response> {
+  const meta = createCompletionMeta();
+
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const accessKeyId = await authenticateAccessKey(request.headers.get('authorization'));
+    
+    let requestBody: any;
+    try {
+      requestBody = await request.json();
+    } catch (error) {
+      throw new ApiError(400);
+    }
+    
+    const model = requestBody.model || 'gemini-pro';
+    const perMessage = requestBody.per_message === true;
+    // 统计的是客户端发送的内容，不添加伪装信息
+    const { geminiRequest, messageParts } = await convertOpenAItoGeminiWithMessageParts({ ...requestBody, model }, { disguise: false });
+    
+    const result = await callWithKeyFailover({
+      request_id: meta.id,
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: model,
+      is_stream: false,
+      request_type: 'count_tokens',
+    }, '[TOKENIZE]', async (key, _logSuccess, signal) => {
+      const genAI = new GoogleGenerativeAI(key.api_key);
+      const geminiModel = genAI.getGenerativeModel({ model });
+      
+      // 总数按完整请求统计一次，包含 systemInstruction 和工具定义
+      const totalPromise = geminiModel.countTokens({
+        generateContentRequest: {
+          contents: geminiRequest.contents,
+          systemInstruction: geminiRequest.systemInstruction,
+          tools: geminiRequest.tools,
+          toolConfig: geminiRequest.toolConfig,
+        },
+      }, { signal });
+      
+      // 请求 per_message 时才逐条统计（每条消息一次 countTokens），空消息直接记为 0
+      const messagePromises = perMessage
+        ? messageParts.map(async (parts, index) => {
+          if (parts.length === 0) {
+            return 0;
+          }
+          const role = requestBody.messages[index].role === 'assistant' ? 'model' : 'user';
+          const { totalTokens } = await geminiModel.countTokens({ contents: [{ role, parts }] }, { signal });
+          return totalTokens;
+        })
+        : [];
+      
+      const [{ totalTokens }, messageTokens] = await Promise.all([totalPromise, Promise.all(messagePromises)]);
+      
+      return {
+        result: {
+          object: 'token_count',
+          model,
+          prompt_tokens: totalTokens,
+          ...(perMessage ? {
+            messages: messageTokens.map((tokens, index) => ({
+              index,
+              role: requestBody.messages[index].role,
+              prompt_tokens: tokens,
+            })),
+          } : {}),
+        },
+        usage: { prompt_tokens: totalTokens, completion_tokens: 0, total_tokens: totalTokens },
+      };
+    });
+    
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-request-id': meta.id,
+        ...CORS_HEADERS,
+      },
+    });
+    
+  } catch (error) {
+    console.error('Tokenize API Error:', error);
+    
+    const apiError = error instanceof ApiError ? error : new ApiError(500);
+    return new Response(JSON.stringify(apiError.toJSON()), {
+      status: apiError.statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-request-id': meta.id,
+        ...CORS_HEADERS,
+      },
+    });
+  }
+}
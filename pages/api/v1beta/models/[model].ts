@@ -0,0 +1,159 @@
+import { validateAccessKey } from '@/lib/key-manager';
+import { callWithKeyFailover } from '@/lib/failover';
+import { convertUsageMetadata } from '@/lib/converter';
+import { GeminiUpstreamError } from '@/lib/upstream-errors';
+import { ApiError, CORS_HEADERS as DEFAULT_CORS_HEADERS } from '@/lib/config';
+
+// Edge Function配置
+export const config = {
+  runtime: 'edge',
+};
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+// 支持透传的 Gemini 原生方法
+const PASSTHROUGH_METHODS = ['generateContent', 'streamGenerateContent', 'countTokens'];
+
+// ApiError 状态码对应的 Gemini 错误状态
+const GOOGLE_ERROR_STATUS: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  405: 'METHOD_NOT_ALLOWED',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
+};
+
+const CORS_HEADERS = {
+  ...DEFAULT_CORS_HEADERS,
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-goog-api-key',
+};
+
+// 以 Gemini 原生格式返回错误
+function createErrorResponse(apiError: ApiError): Response {
+  return new Response(JSON.stringify({
+    error: {
+      code: apiError.statusCode,
+      message: apiError.message,
+      status: GOOGLE_ERROR_STATUS[apiError.statusCode] || 'UNKNOWN',
+    }
+  }), {
+    status: apiError.statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      ...CORS_HEADERS,
+      ...apiError.headers,
+    },
+  });
+}
+
+// 从 x-goog-api-key、key 查询参数或 Authorization 头中读取访问密钥
+function getAccessKey(request: Request, url: URL): string | null {
+  const authHeader = request.headers.get('authorization');
+  return request.headers.get('x-goog-api-key') ||
+    url.searchParams.get('key') ||
+    (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null);
+}
+
+export default async function handler(request: Request): Promise<Response> {
+  // 获取IP地址
+  const ip = request.headers.get('x-forwarded-for') ||
+            request.headers.get('x-real-ip') ||
+            '127.0.0.1';
+
+  try {
+    // 处理 CORS 预检请求
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+      });
+    }
+    
+    if (request.method !== 'POST') {
+      throw new ApiError(405, 'Method not allowed');
+    }
+    
+    const url = new URL(request.url);
+    
+    // 路径最后一段形如 gemini-2.0-flash:generateContent
+    const target = decodeURIComponent(url.pathname.split('/').pop() || '');
+    const separatorIndex = target.lastIndexOf(':');
+    const model = separatorIndex > 0 ? target.slice(0, separatorIndex) : '';
+    const method = separatorIndex > 0 ? target.slice(separatorIndex + 1) : '';
+    if (!model || !PASSTHROUGH_METHODS.includes(method)) {
+      throw new ApiError(404, `Unsupported method "${target}", expected one of ${PASSTHROUGH_METHODS.join(', ')}`);
+    }
+    
+    const accessKeyId = await validateAccessKey(getAccessKey(request, url) || '');
+    if (!accessKeyId) {
+      throw new ApiError(401);
+    }
+    
+    const body = await request.text();
+    
+    // 访问密钥不能透传给上游，其余查询参数（如 alt=sse）原样保留
+    const upstreamParams = new URLSearchParams(url.searchParams);
+    upstreamParams.delete('key');
+    const query = upstreamParams.toString();
+    const upstreamUrl = `${GEMINI_API_BASE}/models/${encodeURIComponent(model)}:${method}${query ? `?${query}` : ''}`;
+    const isStream = method === 'streamGenerateContent';
+    
+    return await callWithKeyFailover({
+      ip_address: ip,
+      access_key_id: accessKeyId,
+      model_requested: model,
+      is_stream: isStream,
+      // countTokens 不计入调用额度，也不受生成接口的 key 冷却影响
+      request_type: method === 'countTokens' ? 'count_tokens' : undefined,
+    }, '[NATIVE]', async (key, _logSuccess, signal) => {
+      const upstream = await fetch(upstreamUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': key.api_key,
+        },
+        body,
+        signal,
+      });
+      
+      if (!upstream.ok) {
+        throw new GeminiUpstreamError(upstream.status, upstream.statusText, await upstream.text());
+      }
+      
+      if (isStream) {
+        // 流式响应直接透传
+        const result = new Response(upstream.body, {
+          status: 200,
+          headers: {
+            'Content-Type': upstream.headers.get('content-type') || 'text/event-stream',
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+            'X-Accel-Buffering': 'no',
+            ...CORS_HEADERS,
+          },
+        });
+        return { result };
+      }
+      
+      const data = await upstream.json();
+      const result = new Response(JSON.stringify(data), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          ...CORS_HEADERS,
+        },
+      });
+      return {
+        result,
+        usage: data.usageMetadata ? convertUsageMetadata(data.usageMetadata) : undefined,
+      };
+    });
+
+  } catch (error) {
+    console.error('Native API Error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : new ApiError(500));
+  }
+}
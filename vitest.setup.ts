@@ -0,0 +1,4 @@
+import { vi } from 'vitest';
+
+// 测试中不连接 Supabase：lib/supabaseClient 在导入时就需要 SUPABASE_URL 等环境变量
+vi.mock('./lib/supabaseClient', () => ({ supabase: {} }));